@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authorizeAdminRequest, authorizeOperatorRequest } from './adminAuth';
+
+const TOKEN_ENV = ['WATCHDOG_ADMIN_TOKEN', 'CRON_SECRET', 'WATCHDOG_STATUS_TOKEN', 'WATCHDOG_ROLLBACK_TOKEN'];
+
+function request(authorization?: string): Request {
+  return new Request('https://router.example.com/api/watchdog', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  for (const name of TOKEN_ENV) {
+    delete process.env[name];
+  }
+  vi.restoreAllMocks();
+});
+
+describe('authorizeAdminRequest', () => {
+  it('rejects every request while no token is configured', async () => {
+    expect((await authorizeAdminRequest(request('Bearer anything'), 'status'))?.status).toBe(401);
+  });
+
+  it('accepts the admin token for every scope', async () => {
+    process.env.WATCHDOG_ADMIN_TOKEN = 'admin-token-value';
+
+    for (const scope of ['tick', 'status', 'provision', 'rollback', 'pause'] as const) {
+      expect(await authorizeAdminRequest(request('Bearer admin-token-value'), scope)).toBeNull();
+    }
+  });
+
+  it('rejects a token that differs only in length', async () => {
+    process.env.WATCHDOG_ADMIN_TOKEN = 'admin-token-value';
+
+    expect((await authorizeAdminRequest(request('Bearer admin-token-valu'), 'status'))?.status).toBe(401);
+    expect((await authorizeAdminRequest(request('Bearer admin-token-value2'), 'status'))?.status).toBe(401);
+  });
+
+  it('limits CRON_SECRET to the tick', async () => {
+    process.env.CRON_SECRET = 'cron-secret-value';
+
+    expect(await authorizeAdminRequest(request('Bearer cron-secret-value'), 'tick')).toBeNull();
+    expect((await authorizeAdminRequest(request('Bearer cron-secret-value'), 'status'))?.status).toBe(401);
+  });
+
+  it('grants scoped tokens their action plus tick and status', async () => {
+    process.env.WATCHDOG_ROLLBACK_TOKEN = 'rollback-token-value';
+    const bearer = 'Bearer rollback-token-value';
+
+    expect(await authorizeAdminRequest(request(bearer), 'rollback')).toBeNull();
+    expect(await authorizeAdminRequest(request(bearer), 'status')).toBeNull();
+    expect(await authorizeAdminRequest(request(bearer), 'tick')).toBeNull();
+    expect((await authorizeAdminRequest(request(bearer), 'provision'))?.status).toBe(401);
+  });
+});
+
+describe('authorizeOperatorRequest', () => {
+  it('takes the token as the Basic password and asks for credentials otherwise', async () => {
+    process.env.WATCHDOG_STATUS_TOKEN = 'status-token-value';
+
+    expect(await authorizeOperatorRequest(request(`Basic ${btoa('operator:status-token-value')}`), 'status')).toBeNull();
+
+    const rejection = await authorizeOperatorRequest(request(), 'status');
+    expect(rejection?.status).toBe(401);
+    expect(rejection?.headers.get('www-authenticate')).toContain('Basic realm="Sandbox operator"');
+  });
+});
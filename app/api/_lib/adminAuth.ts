@@ -0,0 +1,190 @@
+import { createLogger } from './logger';
+
+const ADMIN_TOKEN_ENV = 'WATCHDOG_ADMIN_TOKEN';
+const CRON_SECRET_ENV = 'CRON_SECRET';
+const OPERATOR_REALM = 'Sandbox operator';
+
+/**
+ * What a credential may do. `tick` runs the scheduled watchdog check, `status`
+ * reads fleet state, history, logs and metrics, and the rest are the operator
+ * actions of the same name (`pause` is maintenance mode).
+ */
+export type AdminScope = 'tick' | 'status' | 'provision' | 'rollback' | 'pause';
+
+type AdminAccess = { ok: true; credential: string } | { ok: false; reason: AdminRejection };
+
+type AdminRejection = 'not-configured' | 'missing-token' | 'invalid-token' | 'insufficient-scope';
+
+type Credential = { name: string; token: string; scopes: readonly AdminScope[] };
+
+/**
+ * Per-action tokens. Each one also grants `tick` and `status`: an operator who may
+ * act on the fleet may also see it and run the check that acts on it.
+ */
+const SCOPED_TOKEN_ENV: Record<Exclude<AdminScope, 'tick' | 'status'>, string> = {
+  provision: 'WATCHDOG_PROVISION_TOKEN',
+  rollback: 'WATCHDOG_ROLLBACK_TOKEN',
+  pause: 'WATCHDOG_PAUSE_TOKEN',
+};
+const STATUS_TOKEN_ENV = 'WATCHDOG_STATUS_TOKEN';
+const ALL_SCOPES: readonly AdminScope[] = ['tick', 'status', 'provision', 'rollback', 'pause'];
+
+const logger = createLogger({ component: 'admin-auth' });
+
+/**
+ * Checks the bearer token on operator-only routes against the scope the route
+ * needs. Returns the rejection to send, or `null` when the request may proceed.
+ * Without a configured token every request is rejected rather than left open.
+ */
+export async function authorizeAdminRequest(request: Request, scope: AdminScope): Promise<Response | null> {
+  if (!(await guardRequest(request, scope))) {
+    return Response.json(
+      { status: 'unauthorized', detail: `Missing or invalid token for "${scope}"` },
+      { status: 401 },
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Same check for operator pages opened in a browser, which cannot attach a bearer
+ * token: the rejection asks for HTTP Basic credentials with the token as password.
+ */
+export async function authorizeOperatorRequest(request: Request, scope: AdminScope): Promise<Response | null> {
+  if (!(await guardRequest(request, scope))) {
+    return new Response('Operator credentials required', {
+      status: 401,
+      headers: {
+        'cache-control': 'no-store',
+        'content-type': 'text/plain; charset=utf-8',
+        'www-authenticate': `Basic realm="${OPERATOR_REALM}", charset="UTF-8"`,
+      },
+    });
+  }
+
+  return null;
+}
+
+/** For server actions and pages, which see headers but no request; `action` names them in the audit log. */
+export async function isAdminAuthorized(headers: Headers, scope: AdminScope, action: string): Promise<boolean> {
+  return audit(await checkAdminAccess(headers, scope), scope, { action, ...clientFields(headers) });
+}
+
+/**
+ * Accepts `Authorization: Bearer <token>` or Basic credentials whose password is
+ * the token. `WATCHDOG_ADMIN_TOKEN` holds every scope; `CRON_SECRET`, which
+ * Vercel cron sends as a bearer token, only runs the tick.
+ */
+async function checkAdminAccess(headers: Headers, scope: AdminScope): Promise<AdminAccess> {
+  const credentials = configuredCredentials();
+  if (credentials.length === 0) {
+    return { ok: false, reason: 'not-configured' };
+  }
+
+  const token = presentedToken(headers.get('authorization') ?? '');
+  if (!token) {
+    return { ok: false, reason: 'missing-token' };
+  }
+
+  // Every credential is compared so the response time does not reveal which one matched.
+  const presented = await digest(token);
+  const compared = await Promise.all(credentials.map(async credential => sameDigest(presented, await digest(credential.token))));
+  const matches = credentials.filter((_credential, index) => compared[index]);
+  if (matches.length === 0) {
+    return { ok: false, reason: 'invalid-token' };
+  }
+
+  const granted = matches.find(credential => credential.scopes.includes(scope));
+  return granted ? { ok: true, credential: granted.name } : { ok: false, reason: 'insufficient-scope' };
+}
+
+async function guardRequest(request: Request, scope: AdminScope): Promise<boolean> {
+  const { pathname } = new URL(request.url);
+  return audit(await checkAdminAccess(request.headers, scope), scope, {
+    method: request.method,
+    path: pathname,
+    ...clientFields(request.headers),
+  });
+}
+
+/** Rejections are always logged; grants only for actions that change the fleet. */
+function audit(access: AdminAccess, scope: AdminScope, fields: Record<string, unknown>): boolean {
+  if (!access.ok) {
+    logger.warn('admin-auth.rejected', { scope, reason: access.reason, ...fields });
+    return false;
+  }
+
+  if (scope !== 'status' && scope !== 'tick') {
+    logger.info('admin-auth.granted', { scope, credential: access.credential, ...fields });
+  }
+  return true;
+}
+
+function clientFields(headers: Headers): Record<string, unknown> {
+  return {
+    clientIp: headers.get('x-forwarded-for')?.split(',')[0]?.trim() ?? headers.get('x-real-ip') ?? null,
+    userAgent: headers.get('user-agent') ?? null,
+  };
+}
+
+function configuredCredentials(): Credential[] {
+  const credentials: Credential[] = [];
+  const add = (name: string, scopes: readonly AdminScope[]) => {
+    const token = process.env[name];
+    if (token) {
+      credentials.push({ name, token, scopes });
+    }
+  };
+
+  add(ADMIN_TOKEN_ENV, ALL_SCOPES);
+  add(CRON_SECRET_ENV, ['tick']);
+  add(STATUS_TOKEN_ENV, ['tick', 'status']);
+  for (const [scope, name] of Object.entries(SCOPED_TOKEN_ENV) as [AdminScope, string][]) {
+    add(name, ['tick', 'status', scope]);
+  }
+  return credentials;
+}
+
+/**
+ * Tokens are compared as SHA-256 digests, which are the same length whatever was
+ * sent, so timing reveals neither the token nor its length. Web Crypto rather than
+ * `node:crypto`, since the middleware checks operator credentials on the edge runtime.
+ */
+async function digest(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+function sameDigest(left: Uint8Array, right: Uint8Array): boolean {
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left[index] ^ right[index];
+  }
+  return difference === 0;
+}
+
+function presentedToken(header: string): string | null {
+  const separator = header.indexOf(' ');
+  if (separator < 0) {
+    return null;
+  }
+
+  const scheme = header.slice(0, separator).toLowerCase();
+  const value = header.slice(separator + 1).trim();
+
+  if (scheme === 'bearer') {
+    return value;
+  }
+
+  if (scheme === 'basic') {
+    try {
+      const decoded = atob(value);
+      const colon = decoded.indexOf(':');
+      return colon >= 0 ? decoded.slice(colon + 1) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
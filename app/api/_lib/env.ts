@@ -0,0 +1,23 @@
+export type IntEnvBounds = {
+  /** Smallest accepted value; defaults to 0. */
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Integer setting from the environment variable `name`, or `fallback` when it is
+ * unset or blank. Anything that is not a whole number within the bounds throws
+ * `Invalid NAME value "..."`, so a typo fails loudly instead of falling back.
+ */
+export function intEnv(name: string, fallback: number, { min = 0, max = Number.MAX_SAFE_INTEGER }: IntEnvBounds = {}): number {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = /^-?\d+$/.test(value) ? Number(value) : Number.NaN;
+  if (!Number.isSafeInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid ${name} value "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,139 @@
+import { statfs } from 'node:fs/promises';
+import { monitorEventLoopDelay, type IntervalHistogram } from 'node:perf_hooks';
+
+const SERVER_PROBE_TIMEOUT_MS = 3_000;
+const APP_CHECK_TIMEOUT_MS = 2_000;
+
+/** A probe either reports its observations or the error that stopped it. */
+export type HealthProbe<T> = T | { error: string };
+
+export type AppHealthCheckOutcome = { ok: boolean; detail?: string };
+
+export type HealthReport = {
+  memory: HealthProbe<{ rssBytes: number; heapUsedBytes: number; heapTotalBytes: number }>;
+  eventLoop: HealthProbe<{ lagP99Ms: number; lagMaxMs: number }>;
+  disk: HealthProbe<{ path: string; freeBytes: number; totalBytes: number }>;
+  /** Absent outside a sandbox, where no app server listens on the loopback port. */
+  server?: HealthProbe<{ status: number; latencyMs: number }>;
+  app: Record<string, AppHealthCheckOutcome>;
+};
+
+type AppHealthCheck = () => AppHealthCheckOutcome | Promise<AppHealthCheckOutcome>;
+
+type HealthCheckGlobal = typeof globalThis & {
+  __sandboxHealthChecks?: Map<string, AppHealthCheck>;
+  __sandboxEventLoopDelay?: IntervalHistogram;
+};
+
+// Start sampling as soon as the health route loads so the first report covers real time.
+eventLoopDelay();
+
+/**
+ * Adds an app-specific check to the health report. The watchdog treats any
+ * check that returns `ok: false`, throws or takes longer than two seconds as failing.
+ */
+export function registerHealthCheck(name: string, check: AppHealthCheck) {
+  appHealthChecks().set(name, check);
+}
+
+/**
+ * Collects raw observations only; judging them is left to the watchdog, which
+ * owns the thresholds. `server` probes the app over loopback.
+ */
+export async function runHealthChecks({ server: probeServer }: { server: boolean }): Promise<HealthReport> {
+  const [memory, eventLoop, disk, server, app] = await Promise.all([
+    probe(async () => checkMemory()),
+    probe(async () => checkEventLoop()),
+    probe(checkDisk),
+    probeServer ? probe(checkServer) : undefined,
+    runAppHealthChecks(),
+  ]);
+
+  return { memory, eventLoop, disk, ...(server ? { server } : {}), app };
+}
+
+/** True when a probe failed outright or an app check reported a failure. */
+export function healthReportHasFailures(report: HealthReport): boolean {
+  const probes = [report.memory, report.eventLoop, report.disk, report.server];
+  return probes.some(result => result !== undefined && 'error' in result) || Object.values(report.app).some(outcome => !outcome.ok);
+}
+
+function checkMemory() {
+  const usage = process.memoryUsage();
+  return { rssBytes: usage.rss, heapUsedBytes: usage.heapUsed, heapTotalBytes: usage.heapTotal };
+}
+
+function checkEventLoop() {
+  // The histogram covers the time since the previous health check.
+  const histogram = eventLoopDelay();
+  const lag = {
+    lagP99Ms: nanosToMs(histogram.percentile(99)),
+    lagMaxMs: nanosToMs(histogram.max),
+  };
+  histogram.reset();
+  return lag;
+}
+
+async function checkDisk() {
+  const path = process.cwd();
+  const stats = await statfs(path);
+  return { path, freeBytes: stats.bavail * stats.bsize, totalBytes: stats.blocks * stats.bsize };
+}
+
+/** Requests the home page over loopback to prove the server renders pages, not just this route. */
+async function checkServer() {
+  const startedAt = Date.now();
+  const response = await fetch(`http://127.0.0.1:${process.env.PORT ?? '3000'}/`, {
+    headers: { 'x-sandbox-bypass': 'true', 'user-agent': 'sandbox-health/1.0' },
+    redirect: 'manual',
+    signal: AbortSignal.timeout(SERVER_PROBE_TIMEOUT_MS),
+  });
+  await response.body?.cancel();
+  return { status: response.status, latencyMs: Date.now() - startedAt };
+}
+
+async function runAppHealthChecks(): Promise<Record<string, AppHealthCheckOutcome>> {
+  const entries = await Promise.all(
+    [...appHealthChecks()].map(async ([name, check]) => {
+      try {
+        const outcome = await Promise.race([
+          Promise.resolve(check()),
+          new Promise<AppHealthCheckOutcome>(resolve => {
+            setTimeout(() => resolve({ ok: false, detail: `timed out after ${APP_CHECK_TIMEOUT_MS}ms` }), APP_CHECK_TIMEOUT_MS).unref();
+          }),
+        ]);
+        return [name, outcome] as const;
+      } catch (error) {
+        return [name, { ok: false, detail: error instanceof Error ? error.message : 'unknown-error' }] as const;
+      }
+    }),
+  );
+
+  return Object.fromEntries(entries);
+}
+
+async function probe<T>(run: () => Promise<T>): Promise<HealthProbe<T>> {
+  try {
+    return await run();
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'unknown-error' };
+  }
+}
+
+function eventLoopDelay(): IntervalHistogram {
+  const scope = globalThis as HealthCheckGlobal;
+  if (!scope.__sandboxEventLoopDelay) {
+    scope.__sandboxEventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    scope.__sandboxEventLoopDelay.enable();
+  }
+  return scope.__sandboxEventLoopDelay;
+}
+
+function appHealthChecks(): Map<string, AppHealthCheck> {
+  const scope = globalThis as HealthCheckGlobal;
+  return (scope.__sandboxHealthChecks ??= new Map());
+}
+
+function nanosToMs(value: number): number {
+  return Number.isFinite(value) ? Math.round(value / 1e5) / 10 : 0;
+}
@@ -0,0 +1,223 @@
+import { createLogger } from './logger';
+
+const AUTH_HEADER = 'x-internal-auth';
+const KEY_ENV_PATTERN = /^INTERNAL_AUTH_([A-Z0-9_]+)_SECRET$/;
+const ACTIVE_KEY_ENV = 'INTERNAL_AUTH_KEY_ID';
+const LEGACY_KEY_ENV = 'KEEPALIVE_TOKEN';
+const LEGACY_KEY_ID = 'keepalive';
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const SIGNATURE_VERSION = 'v1';
+
+export type InternalAuthResult = { ok: true; keyId: string } | { ok: false; reason: string };
+
+type NonceGlobal = typeof globalThis & {
+  __sandboxInternalAuthNonces?: Map<string, number>;
+};
+
+const logger = createLogger({ component: 'internal-auth' });
+
+/**
+ * Headers that authenticate a watchdog-to-sandbox request: an HMAC-SHA256 over
+ * the method, path, a timestamp and a one-time nonce, keyed by the active signing
+ * key. The header names the key id so sandboxes can hold several keys at once.
+ */
+export async function signInternalRequest(method: string, url: string): Promise<Record<string, string>> {
+  const keys = signingKeys();
+  const keyId = activeKeyId(keys);
+  const secret = keys.get(keyId);
+  if (!secret) {
+    throw new Error(`Internal auth key "${keyId}" is not configured`);
+  }
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('HMAC', await importKey(secret), canonicalPayload(method, url, timestamp, nonce)),
+  );
+
+  return { [AUTH_HEADER]: `kid=${keyId},ts=${timestamp},nonce=${nonce},sig=${toHex(signature)}` };
+}
+
+/** Whether any signing key is configured; without one, internal routes have nothing to verify against. */
+export function internalAuthConfigured(): boolean {
+  return signingKeys().size > 0;
+}
+
+/** Whether the request carries a signature at all, valid or not. */
+export function carriesInternalSignature(request: Request): boolean {
+  return request.headers.has(AUTH_HEADER);
+}
+
+/** `signInternalRequest` for routes that also answer unsigned requests: no headers while no key is configured. */
+export async function optionalInternalAuthHeaders(method: string, url: string): Promise<Record<string, string>> {
+  return internalAuthConfigured() ? signInternalRequest(method, url) : {};
+}
+
+/**
+ * Checks the signature header: known key id, timestamp within five minutes,
+ * nonce not seen before, and a signature that matches (compared in constant
+ * time by Web Crypto).
+ */
+export async function verifyInternalRequest(request: Request): Promise<InternalAuthResult> {
+  const fields = parseAuthHeader(request.headers.get(AUTH_HEADER));
+  if (!fields) {
+    return { ok: false, reason: 'missing-signature' };
+  }
+
+  const secret = signingKeys().get(fields.kid);
+  if (!secret) {
+    return { ok: false, reason: 'unknown-key' };
+  }
+
+  const signedAt = Number(fields.ts) * 1000;
+  if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > MAX_CLOCK_SKEW_MS) {
+    return { ok: false, reason: 'stale-timestamp' };
+  }
+
+  const signature = fromHex(fields.sig);
+  if (!signature) {
+    return { ok: false, reason: 'malformed-signature' };
+  }
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await importKey(secret),
+    signature,
+    canonicalPayload(request.method, request.url, fields.ts, fields.nonce),
+  );
+  if (!valid) {
+    return { ok: false, reason: 'bad-signature' };
+  }
+
+  // Checked after the signature so unauthenticated requests cannot fill the cache.
+  if (!claimNonce(`${fields.kid}:${fields.nonce}`, signedAt)) {
+    return { ok: false, reason: 'replayed-nonce' };
+  }
+
+  return { ok: true, keyId: fields.kid };
+}
+
+/** Returns the rejection to send, or `null` when the request carries a valid signature. */
+export async function authorizeInternalRequest(request: Request): Promise<Response | null> {
+  const result = await verifyInternalRequest(request);
+  if (result.ok) {
+    return null;
+  }
+
+  logger.warn('internal-auth.rejected', { reason: result.reason, path: new URL(request.url).pathname });
+  return Response.json({ status: 'unauthorized', detail: 'Missing or invalid request signature' }, { status: 401 });
+}
+
+/**
+ * Environment entries that carry signing keys, for forwarding to sandboxes.
+ * Rotation: add the new `INTERNAL_AUTH_<ID>_SECRET` everywhere, switch
+ * `INTERNAL_AUTH_KEY_ID` once every running sandbox knows the new key, then drop
+ * the old one.
+ */
+export function internalAuthEnv(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env).filter(
+      (entry): entry is [string, string] =>
+        Boolean(entry[1]) && (KEY_ENV_PATTERN.test(entry[0]) || entry[0] === ACTIVE_KEY_ENV),
+    ),
+  );
+}
+
+/**
+ * Keys by id from `INTERNAL_AUTH_<ID>_SECRET`; ids are lowercased. Without any,
+ * `KEEPALIVE_TOKEN` serves as the single key `keepalive`, so fleets configured
+ * before key rotation keep working.
+ */
+function signingKeys(): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const [name, value] of Object.entries(process.env)) {
+    const match = KEY_ENV_PATTERN.exec(name);
+    if (match && value) {
+      keys.set(match[1].toLowerCase(), value);
+    }
+  }
+
+  const legacy = process.env[LEGACY_KEY_ENV];
+  if (keys.size === 0 && legacy) {
+    keys.set(LEGACY_KEY_ID, legacy);
+  }
+  return keys;
+}
+
+function activeKeyId(keys: Map<string, string>): string {
+  const configured = process.env[ACTIVE_KEY_ENV]?.trim().toLowerCase();
+  if (configured) {
+    return configured;
+  }
+  if (keys.size > 1) {
+    throw new Error(`${ACTIVE_KEY_ENV} must name the signing key when several are configured`);
+  }
+
+  const [only] = keys.keys();
+  if (!only) {
+    throw new Error('No internal auth key is configured');
+  }
+  return only;
+}
+
+function canonicalPayload(method: string, url: string, timestamp: string, nonce: string): Uint8Array<ArrayBuffer> {
+  const { pathname, search } = new URL(url);
+  return new TextEncoder().encode(
+    [SIGNATURE_VERSION, method.toUpperCase(), `${pathname}${search}`, timestamp, nonce].join('\n'),
+  );
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+}
+
+function parseAuthHeader(header: string | null): Record<'kid' | 'ts' | 'nonce' | 'sig', string> | null {
+  if (!header) {
+    return null;
+  }
+
+  const fields = Object.fromEntries(
+    header.split(',').map(part => {
+      const separator = part.indexOf('=');
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()];
+    }),
+  );
+  const { kid, ts, nonce, sig } = fields;
+  if (!kid || !ts || !/^[0-9a-f]{32}$/.test(nonce ?? '') || !sig) {
+    return null;
+  }
+  return { kid, ts, nonce, sig };
+}
+
+/** Remembers nonces for as long as their timestamp is acceptable; `false` for one already used. */
+function claimNonce(key: string, signedAt: number): boolean {
+  const scope = globalThis as NonceGlobal;
+  const nonces = (scope.__sandboxInternalAuthNonces ??= new Map());
+  const now = Date.now();
+
+  for (const [seen, expiresAt] of nonces) {
+    if (expiresAt <= now) {
+      nonces.delete(seen);
+    }
+  }
+
+  if (nonces.has(key)) {
+    return false;
+  }
+  nonces.set(key, signedAt + MAX_CLOCK_SKEW_MS);
+  return true;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^(?:[0-9a-f]{2})+$/.test(value)) {
+    return null;
+  }
+  return Uint8Array.from(value.match(/../g) ?? [], pair => Number.parseInt(pair, 16));
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type LoggerModule = typeof import('./logger');
+
+async function freshLogger(env: Record<string, string>): Promise<LoggerModule> {
+  Object.assign(process.env, env);
+  delete (globalThis as { __sandboxLogSinks?: unknown }).__sandboxLogSinks;
+  vi.resetModules();
+  return import('./logger');
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  delete process.env.LOG_LEVEL;
+  delete process.env.LOG_FORMAT;
+  delete process.env.LOG_SINKS;
+  vi.restoreAllMocks();
+});
+
+describe('createLogger', () => {
+  it('warns once about an invalid LOG_LEVEL and logs at info', async () => {
+    const { createLogger } = await freshLogger({ LOG_LEVEL: 'verbose', LOG_FORMAT: 'json' });
+    const logger = createLogger();
+
+    expect(() => logger.debug('test.hidden')).not.toThrow();
+    logger.info('test.shown');
+    logger.info('test.shown-again');
+
+    const warnings = vi.mocked(console.warn).mock.calls.map(([line]) => JSON.parse(String(line)));
+    expect(warnings).toEqual([expect.objectContaining({ event: 'logger.config.invalid', name: 'LOG_LEVEL', value: 'verbose' })]);
+    expect(vi.mocked(console.log).mock.calls.map(([line]) => JSON.parse(String(line)).event)).toEqual(['test.shown', 'test.shown-again']);
+  });
+
+  it('falls back to the default format on an invalid LOG_FORMAT', async () => {
+    const { createLogger } = await freshLogger({ LOG_FORMAT: 'xml' });
+
+    createLogger().info('test.event', { count: 2 });
+
+    expect(vi.mocked(console.warn).mock.calls[0][0]).toContain('"name":"LOG_FORMAT"');
+    expect(vi.mocked(console.log).mock.calls[0][0]).toMatch(/^time=\S+ level=info event=test\.event count=2$/);
+  });
+
+  it('drops unknown sinks and keeps logging to the console', async () => {
+    const { createLogger } = await freshLogger({ LOG_FORMAT: 'json', LOG_SINKS: 'consol' });
+
+    expect(() => createLogger().error('test.failure')).not.toThrow();
+    expect(vi.mocked(console.error)).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,312 @@
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import { redactValue } from './redact';
+import { activeTraceFields } from './tracing';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'logfmt';
+export type LogFields = Record<string, unknown>;
+
+export type LogRecord = LogFields & {
+  time: string;
+  level: LogLevel;
+  event: string;
+};
+
+/** Receives every record at or above the configured level. */
+export type LogSink = {
+  name: string;
+  write(record: LogRecord): void;
+  /** Delivers anything the sink still buffers. */
+  flush?(): Promise<void>;
+};
+
+export type Logger = {
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+  child(bindings: LogFields): Logger;
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_LOG_FILE = '.sandbox-logs/app.log';
+const BATCH_SIZE = 100;
+const BATCH_DELAY_MS = 1_000;
+
+type LogSettings = { level: LogLevel; format: LogFormat };
+
+type LoggerGlobal = typeof globalThis & {
+  AsyncLocalStorage?: new <T>() => AsyncLocalStorage<T>;
+  __sandboxLogSinks?: LogSink[];
+  __sandboxLogContext?: AsyncLocalStorage<LogFields> | null;
+};
+
+let settings: LogSettings | undefined;
+
+/**
+ * Structured logger shared by the router, the watchdog and the sandboxed app, so
+ * their output can be joined on the correlation ids (`requestId`, `tickId`,
+ * `sandboxId`) carried by `withLogContext`, and with traces on `traceId`.
+ *
+ * Configured by `LOG_LEVEL`, `LOG_FORMAT` (`json` | `logfmt`) and `LOG_SINKS`
+ * (comma-separated `console`, `file`, `http`). Records are passed through
+ * `redactValue` before they reach a sink.
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  const emit = (level: LogLevel, event: string, fields?: LogFields) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[logSettings().level]) {
+      return;
+    }
+
+    // Redacted once here so no sink, including ones registered later, ever sees a secret.
+    const record: LogRecord = redactValue({
+      time: new Date().toISOString(),
+      level,
+      event,
+      ...processBindings(),
+      ...bindings,
+      ...currentLogContext(),
+      ...activeTraceFields(),
+      ...fields,
+    });
+
+    for (const sink of logSinks()) {
+      sink.write(record);
+    }
+  };
+
+  return {
+    debug: (event, fields) => emit('debug', event, fields),
+    info: (event, fields) => emit('info', event, fields),
+    warn: (event, fields) => emit('warn', event, fields),
+    error: (event, fields) => emit('error', event, fields),
+    child: childBindings => createLogger({ ...bindings, ...childBindings }),
+  };
+}
+
+/**
+ * Runs `run` with `fields` attached to every record logged inside it, including
+ * across awaits. Nested contexts add to the outer one. Without an
+ * `AsyncLocalStorage` (plain scripts outside Next) the fields are dropped.
+ */
+export function withLogContext<T>(fields: LogFields, run: () => T): T {
+  const storage = contextStorage();
+  return storage ? storage.run({ ...currentLogContext(), ...fields }, run) : run();
+}
+
+export function currentLogContext(): LogFields {
+  return contextStorage()?.getStore() ?? {};
+}
+
+/** Adds a sink next to the ones configured through `LOG_SINKS`. */
+export function registerLogSink(sink: LogSink) {
+  logSinks().push(sink);
+}
+
+/** Waits for buffered sinks; call before a serverless invocation returns. */
+export async function flushLogs(): Promise<void> {
+  await Promise.all(logSinks().map(sink => sink.flush?.()));
+}
+
+export function formatLogRecord(record: LogRecord, format: LogFormat): string {
+  if (format === 'json') {
+    return safeStringify(record, (_key, value) => (value instanceof Error ? serializeError(value) : value));
+  }
+
+  return Object.entries(record)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${formatLogfmtValue(value)}`)
+    .join(' ');
+}
+
+function formatLogfmtValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  const text =
+    typeof value === 'string' ? value : safeStringify(value instanceof Error ? serializeError(value) : value);
+  return text === '' || /[\s="\\]/.test(text) ? JSON.stringify(text) : text;
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function safeStringify(value: unknown, replacer?: (key: string, value: unknown) => unknown): string {
+  try {
+    return JSON.stringify(value, replacer);
+  } catch {
+    return '"[unserializable]"';
+  }
+}
+
+/** Identity of the process itself; a sandbox learns its id from `SANDBOX_ID`. */
+function processBindings(): LogFields {
+  return process.env.SANDBOX_ID ? { sandboxId: process.env.SANDBOX_ID } : {};
+}
+
+function contextStorage(): AsyncLocalStorage<LogFields> | null {
+  const scope = globalThis as LoggerGlobal;
+  if (scope.__sandboxLogContext === undefined) {
+    // Next installs AsyncLocalStorage as a global in both the Node.js and edge runtimes.
+    scope.__sandboxLogContext = scope.AsyncLocalStorage ? new scope.AsyncLocalStorage<LogFields>() : null;
+  }
+  return scope.__sandboxLogContext;
+}
+
+function logSinks(): LogSink[] {
+  const scope = globalThis as LoggerGlobal;
+  return (scope.__sandboxLogSinks ??= configuredSinks());
+}
+
+function configuredSinks(): LogSink[] {
+  const value = process.env.LOG_SINKS;
+  const names = value ? value.split(',').map(name => name.trim()).filter(Boolean) : [];
+  const sinks = names.flatMap((name): LogSink[] => {
+    if (name === 'console') {
+      return [consoleSink()];
+    }
+    if (name === 'file') {
+      return [fileSink(process.env.LOG_FILE ?? DEFAULT_LOG_FILE)];
+    }
+    if (name === 'http') {
+      const url = process.env.LOG_DRAIN_URL;
+      return url ? [httpSink(url, process.env.LOG_DRAIN_TOKEN)] : reportInvalidSetting('LOG_DRAIN_URL', '', []);
+    }
+    return reportInvalidSetting('LOG_SINKS', name, []);
+  });
+
+  return sinks.length > 0 ? sinks : [consoleSink()];
+}
+
+function consoleSink(): LogSink {
+  return {
+    name: 'console',
+    write(record) {
+      const line = formatLogRecord(record, logSettings().format);
+      if (record.level === 'error') {
+        console.error(line);
+      } else if (record.level === 'warn') {
+        console.warn(line);
+      } else {
+        console.log(line);
+      }
+    },
+  };
+}
+
+function fileSink(path: string): LogSink {
+  return batchingSink('file', logSettings().format, async lines => {
+    const fs = await loadFileSystem();
+    const directory = path.slice(0, path.lastIndexOf('/'));
+    if (directory) {
+      await fs.mkdir(directory, { recursive: true });
+    }
+    await fs.appendFile(path, `${lines.join('\n')}\n`, 'utf8');
+  });
+}
+
+/** Ships newline-delimited JSON to a log drain. */
+function httpSink(url: string, token: string | undefined): LogSink {
+  return batchingSink('http', 'json', async lines => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/x-ndjson',
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      },
+      body: `${lines.join('\n')}\n`,
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new Error(`Log drain responded with ${response.status}`);
+    }
+  });
+}
+
+/**
+ * Collects lines and delivers them in batches. A failed delivery is reported on
+ * the console and dropped; logging never throws into the caller.
+ */
+function batchingSink(name: string, format: LogFormat, deliver: (lines: string[]) => Promise<void>): LogSink {
+  let buffer: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (buffer.length === 0) {
+      return inFlight;
+    }
+
+    const lines = buffer;
+    buffer = [];
+    inFlight = inFlight.then(() =>
+      deliver(lines).catch(error => {
+        console.error(`logger.sink.${name}.error`, error instanceof Error ? error.message : String(error));
+      }),
+    );
+    return inFlight;
+  };
+
+  return {
+    name,
+    write(record) {
+      buffer.push(formatLogRecord(record, format));
+      if (buffer.length >= BATCH_SIZE) {
+        void flush();
+      } else if (!timer) {
+        timer = setTimeout(() => void flush(), BATCH_DELAY_MS);
+        // Edge timers have no unref; a pending batch must not keep a Node.js script alive.
+        (timer as { unref?: () => void }).unref?.();
+      }
+    },
+    flush,
+  };
+}
+
+function loadFileSystem(): Promise<typeof import('node:fs/promises')> {
+  // NEXT_RUNTIME is inlined per bundle, so the edge build drops this branch entirely.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    return import('node:fs/promises');
+  }
+  return Promise.reject(new Error('Log sink "file" requires the Node.js runtime'));
+}
+
+/**
+ * Read once. A bad value is reported and replaced by its default: a typo must not
+ * turn every log call, including those in catch blocks, into a throw.
+ */
+function logSettings(): LogSettings {
+  return (settings ??= { level: parseLogLevel(), format: parseLogFormat() });
+}
+
+function parseLogLevel(): LogLevel {
+  const value = process.env.LOG_LEVEL;
+  if (!value) {
+    return 'info';
+  }
+  return Object.hasOwn(LEVEL_ORDER, value) ? (value as LogLevel) : reportInvalidSetting('LOG_LEVEL', value, 'info');
+}
+
+function parseLogFormat(): LogFormat {
+  const value = process.env.LOG_FORMAT;
+  const fallback = process.env.NODE_ENV === 'production' ? 'json' : 'logfmt';
+  if (!value) {
+    return fallback;
+  }
+  return value === 'json' || value === 'logfmt' ? value : reportInvalidSetting('LOG_FORMAT', value, fallback);
+}
+
+/** Written straight to the console: the sinks may not be set up yet. */
+function reportInvalidSetting<T>(name: string, value: string, fallback: T): T {
+  const record: LogRecord = { time: new Date().toISOString(), level: 'warn', event: 'logger.config.invalid', name, value, fallback };
+  console.warn(formatLogRecord(record, 'json'));
+  return fallback;
+}
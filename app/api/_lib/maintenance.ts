@@ -0,0 +1,72 @@
+import { createLogger } from './logger';
+import { STATE_KEYS } from './sandboxState';
+import type { StateStore } from './stateStore';
+
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Stored under `sandbox_maintenance` while maintenance mode is on; the key is removed when it ends. */
+export type MaintenanceMode = {
+  startedAt: string;
+  /** Shown to visitors instead of the default text. */
+  message?: string;
+  /** Expected end, used for `Retry-After`. Maintenance stays on past it until an operator ends it. */
+  until?: string;
+};
+
+export type MaintenanceInput = { message?: string; until?: string };
+
+const logger = createLogger({ component: 'maintenance' });
+
+export async function readMaintenanceMode(store: StateStore): Promise<MaintenanceMode | null> {
+  return (await store.get<MaintenanceMode>(STATE_KEYS.maintenance)) ?? null;
+}
+
+/** Turns maintenance mode on, or updates the message and expected end while it is on. */
+export async function enableMaintenanceMode(store: StateStore, input: MaintenanceInput): Promise<MaintenanceMode> {
+  const current = await readMaintenanceMode(store);
+  const mode: MaintenanceMode = {
+    startedAt: current?.startedAt ?? new Date().toISOString(),
+    ...(input.message ? { message: input.message } : {}),
+    ...(input.until ? { until: input.until } : {}),
+  };
+
+  await store.update([{ operation: 'upsert', key: STATE_KEYS.maintenance, value: mode }]);
+  logger.warn('sandbox.maintenance.enabled', { ...mode, updated: Boolean(current) });
+  return mode;
+}
+
+export async function disableMaintenanceMode(store: StateStore): Promise<boolean> {
+  const current = await readMaintenanceMode(store);
+  if (!current) {
+    return false;
+  }
+
+  await store.update([{ operation: 'delete', key: STATE_KEYS.maintenance }]);
+  logger.warn('sandbox.maintenance.disabled', { startedAt: current.startedAt });
+  return true;
+}
+
+/**
+ * Validates operator input. Returns the cleaned fields, or an error message for a
+ * message that is too long or an end time that is not a future ISO date.
+ */
+export function parseMaintenanceInput(message: unknown, until: unknown): MaintenanceInput | { error: string } {
+  const input: MaintenanceInput = {};
+
+  if (message !== undefined && message !== null && message !== '') {
+    if (typeof message !== 'string' || message.length > MAX_MESSAGE_LENGTH) {
+      return { error: `message must be a string of at most ${MAX_MESSAGE_LENGTH} characters` };
+    }
+    input.message = message.trim();
+  }
+
+  if (until !== undefined && until !== null && until !== '') {
+    const parsed = typeof until === 'string' ? Date.parse(until) : Number.NaN;
+    if (Number.isNaN(parsed) || parsed <= Date.now()) {
+      return { error: 'until must be a future ISO 8601 date' };
+    }
+    input.until = new Date(parsed).toISOString();
+  }
+
+  return input;
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { incrementCounter, readMetrics, recordRouterMetrics, renderPrometheus } from './metrics';
+import { STATE_KEYS } from './sandboxState';
+import { createMemoryStateStore } from './stateStore';
+
+afterEach(() => {
+  delete (globalThis as { __sandboxPendingMetrics?: unknown }).__sandboxPendingMetrics;
+  delete (globalThis as { __sandboxMemoryState?: unknown }).__sandboxMemoryState;
+});
+
+describe('recordRouterMetrics', () => {
+  it('adds batches to the stored router totals', async () => {
+    const store = createMemoryStateStore();
+    const batch = { counters: { router_routing_decisions_total: { 'decision="edge-rewrite"': 2 } }, histograms: {} };
+
+    expect(await recordRouterMetrics(store, batch)).toBe(true);
+    expect(await recordRouterMetrics(store, batch)).toBe(true);
+
+    expect(await store.get(STATE_KEYS.routerMetrics)).toEqual({
+      counters: { router_routing_decisions_total: { 'decision="edge-rewrite"': 4 } },
+      histograms: {},
+    });
+  });
+
+  it.each([
+    ['a non-object', 'counts'],
+    ['a watchdog metric', { counters: { sandbox_drains_total: { '': 1 } } }],
+    ['an unknown metric', { counters: { made_up_total: { '': 1 } } }],
+    ['a negative count', { counters: { router_routing_decisions_total: { 'decision="503"': -1 } } }],
+  ])('rejects %s', async (_name, batch) => {
+    const store = createMemoryStateStore();
+
+    expect(await recordRouterMetrics(store, batch)).toBe(false);
+    expect(await store.get(STATE_KEYS.routerMetrics)).toBeUndefined();
+  });
+});
+
+describe('readMetrics', () => {
+  it('combines stored router and watchdog totals with unsaved ones', async () => {
+    const store = createMemoryStateStore();
+    await recordRouterMetrics(store, { counters: { router_routing_decisions_total: { 'decision="503"': 3 } } });
+    await store.update([
+      { operation: 'upsert', key: STATE_KEYS.metrics, value: { counters: { sandbox_drains_total: { '': 1 } }, histograms: {} } },
+    ]);
+    incrementCounter('sandbox_drains_total');
+
+    const text = renderPrometheus(await readMetrics(store));
+
+    expect(text).toContain('router_routing_decisions_total{decision="503"} 3');
+    expect(text).toContain('sandbox_drains_total 2');
+  });
+});
@@ -0,0 +1,316 @@
+import { intEnv } from './env';
+import { optionalInternalAuthHeaders } from './internalAuth';
+import { createLogger } from './logger';
+import { monitoringRoutesDisabled } from './monitoringToggle';
+import { STATE_KEYS } from './sandboxState';
+import type { StateStore } from './stateStore';
+
+/** Node.js route the middleware posts its batched router counters to. */
+export const ROUTER_METRICS_PATH = '/api/metrics';
+
+const DEFAULT_ROUTER_FLUSH_MS = 60_000;
+const DURATION_BUCKETS_S = [1, 5, 15, 30, 60, 120, 300, 600, 900];
+const LATENCY_BUCKETS_S = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricSource = 'watchdog' | 'router';
+
+type MetricDefinition =
+  | { type: 'counter'; help: string; source: MetricSource }
+  | { type: 'histogram'; help: string; source: MetricSource; buckets: number[] };
+
+/**
+ * Everything `/api/metrics` exposes. Both sources are persisted in the state
+ * store under separate keys: the watchdog by the lease holder, the router in
+ * batches posted to `ROUTER_METRICS_PATH` (see `flushRouterMetrics`).
+ */
+const METRICS = {
+  sandbox_provision_step_duration_seconds: {
+    type: 'histogram',
+    help: 'Duration of each bootstrap command, by step and outcome.',
+    source: 'watchdog',
+    buckets: DURATION_BUCKETS_S,
+  },
+  sandbox_provision_duration_seconds: {
+    type: 'histogram',
+    help: 'Duration of a provision attempt from create to a started app, by outcome.',
+    source: 'watchdog',
+    buckets: DURATION_BUCKETS_S,
+  },
+  sandbox_provision_retries_total: {
+    type: 'counter',
+    help: 'Provision attempts that failed and were retried.',
+    source: 'watchdog',
+  },
+  sandbox_rotations_total: {
+    type: 'counter',
+    help: 'Replacements started, by reason.',
+    source: 'watchdog',
+  },
+  sandbox_health_check_duration_seconds: {
+    type: 'histogram',
+    help: 'Latency of sandbox health checks, by role and outcome.',
+    source: 'watchdog',
+    buckets: LATENCY_BUCKETS_S,
+  },
+  sandbox_drains_total: {
+    type: 'counter',
+    help: 'Sandboxes moved out of the pool to drain.',
+    source: 'watchdog',
+  },
+  sandbox_decommissions_total: {
+    type: 'counter',
+    help: 'Drained sandboxes stopped, by result.',
+    source: 'watchdog',
+  },
+  router_routing_decisions_total: {
+    type: 'counter',
+    help: 'Requests routed by the middleware, by decision.',
+    source: 'router',
+  },
+} satisfies Record<string, MetricDefinition>;
+
+type MetricName = keyof typeof METRICS;
+type NamesOf<Type extends MetricDefinition['type']> = {
+  [Name in MetricName]: (typeof METRICS)[Name]['type'] extends Type ? Name : never;
+}[MetricName];
+
+export type CounterName = NamesOf<'counter'>;
+export type HistogramName = NamesOf<'histogram'>;
+export type MetricLabels = Record<string, string>;
+
+type HistogramState = { buckets: number[]; sum: number; count: number };
+
+/** Series are keyed by their rendered label set, e.g. `step="git-clone",outcome="failed"`. */
+export type MetricsSnapshot = {
+  counters: Record<string, Record<string, number>>;
+  histograms: Record<string, Record<string, HistogramState>>;
+};
+
+type MetricsGlobal = typeof globalThis & {
+  __sandboxPendingMetrics?: Record<MetricSource, MetricsSnapshot>;
+  __sandboxRouterMetricsFlushedAt?: number;
+  __sandboxRouterMetricsWrite?: Promise<void>;
+};
+
+const logger = createLogger({ component: 'metrics' });
+
+export function incrementCounter(name: CounterName, labels: MetricLabels = {}, by = 1) {
+  const series = (pendingFor(name).counters[name] ??= {});
+  const key = labelKey(labels);
+  series[key] = (series[key] ?? 0) + by;
+}
+
+export function observeHistogram(name: HistogramName, labels: MetricLabels, value: number) {
+  const { buckets } = METRICS[name];
+  const series = (pendingFor(name).histograms[name] ??= {});
+  const state = (series[labelKey(labels)] ??= { buckets: buckets.map(() => 0), sum: 0, count: 0 });
+  const index = buckets.findIndex(bound => value <= bound);
+  if (index >= 0) {
+    state.buckets[index] += 1;
+  }
+  state.sum += value;
+  state.count += 1;
+}
+
+/**
+ * Folds this process's unsaved watchdog observations into the stored totals.
+ * Only the lease holder writes them, so the read-merge-write cannot race.
+ * Failures are logged and the observations dropped; metrics never fail a run.
+ */
+export async function persistPendingMetrics(store: StateStore) {
+  const pending = pendingMetrics().watchdog;
+  if (isEmpty(pending)) {
+    return;
+  }
+  pendingMetrics().watchdog = emptySnapshot();
+
+  try {
+    const stored = (await store.get<MetricsSnapshot>(STATE_KEYS.metrics)) ?? emptySnapshot();
+    await store.update([{ operation: 'upsert', key: STATE_KEYS.metrics, value: mergeSnapshots(stored, pending) }]);
+  } catch (error) {
+    logger.warn('metrics.persist-error', { source: 'watchdog', error });
+  }
+}
+
+/**
+ * Posts the router counters of this isolate to `ROUTER_METRICS_PATH`, at most
+ * once per `SANDBOX_ROUTER_METRICS_FLUSH_MS`, with a signed request. The
+ * middleware holds no write credential; the Node.js route does the write. A
+ * failed post keeps the counters for the next flush. Nothing is posted while
+ * the monitoring routes are off.
+ */
+export async function flushRouterMetrics(origin: string) {
+  const scope = globalThis as MetricsGlobal;
+  const pending = pendingMetrics().router;
+  if (monitoringRoutesDisabled() || isEmpty(pending) || Date.now() - (scope.__sandboxRouterMetricsFlushedAt ?? 0) < routerMetricsFlushInterval()) {
+    return;
+  }
+  scope.__sandboxRouterMetricsFlushedAt = Date.now();
+  pendingMetrics().router = emptySnapshot();
+
+  const url = new URL(ROUTER_METRICS_PATH, origin).toString();
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...(await optionalInternalAuthHeaders('POST', url)) },
+      body: JSON.stringify(pending),
+      cache: 'no-store',
+    });
+    if (!response.ok) {
+      throw new Error(`router-metrics-rejected: ${response.status}`);
+    }
+  } catch (error) {
+    pendingMetrics().router = mergeSnapshots(pending, pendingMetrics().router);
+    logger.warn('metrics.flush-error', { source: 'router', error });
+  }
+}
+
+/**
+ * Rather than per request: every flush is a state store write, and router
+ * isolates flushing through different server instances at the same moment can
+ * still lose one another's batch.
+ */
+export function routerMetricsFlushInterval(): number {
+  return intEnv('SANDBOX_ROUTER_METRICS_FLUSH_MS', DEFAULT_ROUTER_FLUSH_MS);
+}
+
+/**
+ * Adds a batch posted by `flushRouterMetrics` to the stored router totals.
+ * Batches received by this process are written one at a time. Returns `false`
+ * for anything but router counters with non-negative counts.
+ */
+export async function recordRouterMetrics(store: StateStore, batch: unknown): Promise<boolean> {
+  const counters = routerCounters(batch);
+  if (!counters) {
+    return false;
+  }
+
+  const scope = globalThis as MetricsGlobal;
+  const write = (scope.__sandboxRouterMetricsWrite ?? Promise.resolve()).then(async () => {
+    const stored = (await store.get<MetricsSnapshot>(STATE_KEYS.routerMetrics)) ?? emptySnapshot();
+    const value = mergeSnapshots(stored, { counters, histograms: {} });
+    await store.update([{ operation: 'upsert', key: STATE_KEYS.routerMetrics, value }]);
+  });
+  scope.__sandboxRouterMetricsWrite = write.catch(() => undefined);
+  await write;
+  return true;
+}
+
+/** Stored totals of both sources plus whatever this process has not saved yet. */
+export async function readMetrics(store: StateStore): Promise<MetricsSnapshot> {
+  const [watchdog, router] = await Promise.all([
+    store.get<MetricsSnapshot>(STATE_KEYS.metrics),
+    store.get<MetricsSnapshot>(STATE_KEYS.routerMetrics),
+  ]);
+  const pending = pendingMetrics();
+
+  return [watchdog, router, pending.watchdog, pending.router].reduce<MetricsSnapshot>(
+    (total, snapshot) => (snapshot ? mergeSnapshots(total, snapshot) : total),
+    emptySnapshot(),
+  );
+}
+
+/** Prometheus text exposition format, version 0.0.4. */
+export function renderPrometheus(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+
+  for (const [name, definition] of Object.entries(METRICS) as [MetricName, MetricDefinition][]) {
+    lines.push(`# HELP ${name} ${definition.help}`, `# TYPE ${name} ${definition.type}`);
+
+    if (definition.type === 'counter') {
+      for (const [labels, value] of Object.entries(snapshot.counters[name] ?? {})) {
+        lines.push(`${name}${labels ? `{${labels}}` : ''} ${value}`);
+      }
+      continue;
+    }
+
+    for (const [labels, state] of Object.entries(snapshot.histograms[name] ?? {})) {
+      const prefix = labels ? `${labels},` : '';
+      let cumulative = 0;
+      definition.buckets.forEach((bound, index) => {
+        cumulative += state.buckets[index] ?? 0;
+        lines.push(`${name}_bucket{${prefix}le="${bound}"} ${cumulative}`);
+      });
+      lines.push(`${name}_bucket{${prefix}le="+Inf"} ${state.count}`);
+      lines.push(`${name}_sum${labels ? `{${labels}}` : ''} ${state.sum}`);
+      lines.push(`${name}_count${labels ? `{${labels}}` : ''} ${state.count}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function mergeSnapshots(base: MetricsSnapshot, addition: MetricsSnapshot): MetricsSnapshot {
+  const merged: MetricsSnapshot = structuredClone(base);
+
+  for (const [name, series] of Object.entries(addition.counters)) {
+    const target = (merged.counters[name] ??= {});
+    for (const [labels, value] of Object.entries(series)) {
+      target[labels] = (target[labels] ?? 0) + value;
+    }
+  }
+
+  for (const [name, series] of Object.entries(addition.histograms)) {
+    const target = (merged.histograms[name] ??= {});
+    for (const [labels, state] of Object.entries(series)) {
+      const existing = target[labels];
+      // A change to the bucket layout restarts the series rather than mixing layouts.
+      target[labels] =
+        existing && existing.buckets.length === state.buckets.length
+          ? {
+              buckets: existing.buckets.map((count, index) => count + state.buckets[index]),
+              sum: existing.sum + state.sum,
+              count: existing.count + state.count,
+            }
+          : structuredClone(state);
+    }
+  }
+
+  return merged;
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+function pendingFor(name: MetricName): MetricsSnapshot {
+  return pendingMetrics()[METRICS[name].source];
+}
+
+function pendingMetrics(): Record<MetricSource, MetricsSnapshot> {
+  const scope = globalThis as MetricsGlobal;
+  return (scope.__sandboxPendingMetrics ??= { watchdog: emptySnapshot(), router: emptySnapshot() });
+}
+
+function routerCounters(batch: unknown): MetricsSnapshot['counters'] | null {
+  const counters = isRecord(batch) ? batch.counters : undefined;
+  if (!isRecord(counters)) {
+    return null;
+  }
+
+  for (const [name, series] of Object.entries(counters)) {
+    const definition: MetricDefinition | undefined = METRICS[name as MetricName];
+    if (definition?.source !== 'router' || definition.type !== 'counter' || !isRecord(series)) {
+      return null;
+    }
+    if (!Object.values(series).every(value => typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+      return null;
+    }
+  }
+  return counters as MetricsSnapshot['counters'];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(snapshot: MetricsSnapshot): boolean {
+  return Object.keys(snapshot.counters).length === 0 && Object.keys(snapshot.histograms).length === 0;
+}
+
+function emptySnapshot(): MetricsSnapshot {
+  return { counters: {}, histograms: {} };
+}
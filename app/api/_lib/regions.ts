@@ -0,0 +1,83 @@
+type Coordinates = { latitude: number; longitude: number };
+
+/** Approximate locations of the Vercel compute regions. */
+const REGION_COORDINATES: Record<string, Coordinates> = {
+  arn1: { latitude: 59.65, longitude: 17.93 },
+  bom1: { latitude: 19.09, longitude: 72.87 },
+  cdg1: { latitude: 49.01, longitude: 2.55 },
+  cle1: { latitude: 41.41, longitude: -81.85 },
+  cpt1: { latitude: -33.97, longitude: 18.6 },
+  dub1: { latitude: 53.42, longitude: -6.27 },
+  fra1: { latitude: 50.03, longitude: 8.57 },
+  gru1: { latitude: -23.43, longitude: -46.47 },
+  hkg1: { latitude: 22.31, longitude: 113.91 },
+  hnd1: { latitude: 35.55, longitude: 139.78 },
+  iad1: { latitude: 38.95, longitude: -77.46 },
+  icn1: { latitude: 37.46, longitude: 126.44 },
+  kix1: { latitude: 34.43, longitude: 135.24 },
+  lhr1: { latitude: 51.47, longitude: -0.45 },
+  pdx1: { latitude: 45.59, longitude: -122.6 },
+  sfo1: { latitude: 37.62, longitude: -122.38 },
+  sin1: { latitude: 1.36, longitude: 103.99 },
+  syd1: { latitude: -33.94, longitude: 151.18 },
+};
+
+/**
+ * Parses `SANDBOX_REGIONS` (e.g. `iad1,fra1,sin1`). An empty list means the fleet
+ * is not region-aware and every sandbox lives in one implicit region. Placement
+ * relies on a private Sandbox API parameter; a sandbox that lands elsewhere fails
+ * its provision, so leave this unset unless the API honours it for your team.
+ */
+export function configuredRegions(): string[] {
+  const raw = process.env.SANDBOX_REGIONS?.trim();
+  if (!raw) {
+    return [];
+  }
+
+  return [...new Set(raw.split(',').map(part => part.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Best guess at where a request comes from: the client geo headers Vercel adds,
+ * falling back to the edge region that received the request.
+ */
+export function requestCoordinates(headers: Headers): Coordinates | null {
+  const latitude = Number.parseFloat(headers.get('x-vercel-ip-latitude') ?? '');
+  const longitude = Number.parseFloat(headers.get('x-vercel-ip-longitude') ?? '');
+  if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+    return { latitude, longitude };
+  }
+
+  // x-vercel-id looks like "fra1::iad1::abcde-123"; the first segment is the edge region.
+  const edgeRegion = headers.get('x-vercel-id')?.split('::')[0]?.toLowerCase();
+  return edgeRegion ? REGION_COORDINATES[edgeRegion] ?? null : null;
+}
+
+/**
+ * Orders regions nearest-first. Regions without known coordinates, or all of them
+ * when the origin is unknown, keep their given order after the ranked ones.
+ */
+export function rankRegions(regions: string[], origin: Coordinates | null): string[] {
+  if (!origin) {
+    return [...regions];
+  }
+
+  const known = regions.filter(region => REGION_COORDINATES[region]);
+  const unknown = regions.filter(region => !REGION_COORDINATES[region]);
+  const ranked = known
+    .map(region => ({ region, distance: distanceKm(origin, REGION_COORDINATES[region]) }))
+    .sort((left, right) => left.distance - right.distance)
+    .map(entry => entry.region);
+
+  return [...ranked, ...unknown];
+}
+
+function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLatitude = toRadians(to.latitude - from.latitude);
+  const deltaLongitude = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(deltaLongitude / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
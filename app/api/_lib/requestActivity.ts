@@ -0,0 +1,85 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// Probes from the watchdog would otherwise count as traffic and keep a drained sandbox busy.
+const UNTRACKED_PREFIXES = ['/internal/', '/api/health'];
+
+export type RequestActivity = {
+  inFlight: number;
+  /** Start or end of the most recent tracked request; process start when there was none. */
+  lastActivityAt: string;
+  draining: boolean;
+  drainingSince: string | null;
+};
+
+type ActivityState = {
+  inFlight: number;
+  lastActivityAt: number;
+  drainingSince: number | null;
+  tracking: boolean;
+};
+
+type ActivityGlobal = typeof globalThis & {
+  __sandboxRequestActivity?: ActivityState;
+};
+
+/**
+ * Counts requests on every Node HTTP server in the process from arrival until the
+ * response closes, streamed responses included. Called once from instrumentation;
+ * later calls are no-ops.
+ */
+export async function trackServerRequests() {
+  const state = activityState();
+  if (state.tracking) {
+    return;
+  }
+  state.tracking = true;
+
+  const { Server } = await import('node:http');
+  const emit = Server.prototype.emit;
+
+  Server.prototype.emit = function (this: unknown, event: string | symbol, ...args: unknown[]) {
+    if (event === 'request') {
+      const [request, response] = args as [IncomingMessage, ServerResponse];
+      if (!UNTRACKED_PREFIXES.some(prefix => request.url?.startsWith(prefix))) {
+        state.inFlight += 1;
+        state.lastActivityAt = Date.now();
+        response.once('close', () => {
+          state.inFlight -= 1;
+          state.lastActivityAt = Date.now();
+        });
+      }
+    }
+    return Reflect.apply(emit, this, [event, ...args]) as boolean;
+  } as typeof emit;
+}
+
+export function requestActivity(): RequestActivity {
+  const state = activityState();
+  return {
+    inFlight: state.inFlight,
+    lastActivityAt: new Date(state.lastActivityAt).toISOString(),
+    draining: state.drainingSince !== null,
+    drainingSince: state.drainingSince === null ? null : new Date(state.drainingSince).toISOString(),
+  };
+}
+
+/** Marks the process as draining; repeated calls keep the original start time. */
+export function startDraining() {
+  const state = activityState();
+  state.drainingSince ??= Date.now();
+}
+
+/** Undoes `startDraining`, for a sandbox that a rollback puts back into service. */
+export function stopDraining() {
+  activityState().drainingSince = null;
+}
+
+function activityState(): ActivityState {
+  const scope = globalThis as ActivityGlobal;
+  return (scope.__sandboxRequestActivity ??= {
+    inFlight: 0,
+    lastActivityAt: Date.now(),
+    drainingSince: null,
+    tracking: false,
+  });
+}
@@ -0,0 +1,53 @@
+import { optionalInternalAuthHeaders } from './internalAuth';
+import { LEGACY_STATE_KEYS, STATE_KEYS } from './sandboxState';
+import { createEdgeConfigStateStore, resolveStateStoreKind, type StateStore, type StateStoreKind } from './stateStore';
+
+/** Node.js route that serves routing keys of the file and memory stores to the middleware. */
+export const STATE_READ_PATH = '/api/state';
+
+/** Everything the middleware reads; `STATE_READ_PATH` serves nothing else. */
+export const ROUTING_STATE_KEYS: readonly string[] = [
+  STATE_KEYS.targets,
+  STATE_KEYS.active,
+  STATE_KEYS.lastKnownGood,
+  STATE_KEYS.maintenance,
+  STATE_KEYS.lease,
+  STATE_KEYS.metrics,
+  LEGACY_STATE_KEYS.active,
+  LEGACY_STATE_KEYS.lastKnownGood,
+];
+
+/**
+ * State store for the middleware, which runs on the edge runtime. Edge Config is
+ * read directly. The file and memory stores only exist in the Node.js server, so
+ * their routing keys are fetched from `STATE_READ_PATH` on `origin` with a signed
+ * request; that reader is read-only.
+ */
+export function getRoutingStateStore(origin: string): StateStore {
+  const kind = resolveStateStoreKind();
+  return kind === 'edge-config' ? createEdgeConfigStateStore() : createStateReader(kind, origin);
+}
+
+function createStateReader(kind: StateStoreKind, origin: string): StateStore {
+  return {
+    kind,
+    async get<T>(key: string) {
+      const url = new URL(STATE_READ_PATH, origin);
+      url.searchParams.set('key', key);
+
+      const response = await fetch(url, {
+        headers: await optionalInternalAuthHeaders('GET', url.toString()),
+        cache: 'no-store',
+      });
+      if (!response.ok) {
+        throw new Error(`state-read-failed: ${response.status} for ${key}`);
+      }
+
+      const { value } = (await response.json()) as { value: T | null };
+      return value ?? undefined;
+    },
+    async update() {
+      throw new Error(`State store "${kind}" is read-only in the middleware`);
+    },
+  };
+}
@@ -0,0 +1,100 @@
+export type RoutingTarget = {
+  id: string;
+  url: string;
+  /** Relative share of traffic within its region; members with weight 0 receive none. */
+  weight: number;
+  region?: string;
+};
+
+/** A sandbox out of rotation but still running; only clients with affinity to it are sent there. */
+export type DrainingTarget = {
+  id: string;
+  url: string;
+  region?: string;
+};
+
+export type RoutingTable = {
+  updatedAt: string;
+  targets: RoutingTarget[];
+  /** Absent in tables written before affinity routing existed. */
+  draining?: DrainingTarget[];
+};
+
+export const DEFAULT_TARGET_WEIGHT = 100;
+
+export function routableTargets(table: RoutingTable | null | undefined): RoutingTarget[] {
+  if (!table || !Array.isArray(table.targets)) {
+    return [];
+  }
+
+  return table.targets.filter(target => Boolean(target.url) && Number.isFinite(target.weight) && target.weight > 0);
+}
+
+/** The draining sandbox a client is pinned to, or `null` once it has been decommissioned. */
+export function drainingTarget(table: RoutingTable | null | undefined, sandboxId: string): DrainingTarget | null {
+  if (!table || !Array.isArray(table.draining)) {
+    return null;
+  }
+
+  return table.draining.find(target => target.id === sandboxId && Boolean(target.url)) ?? null;
+}
+
+/**
+ * Picks a target proportionally to its weight. `roll` is a number in [0, 1);
+ * callers pass `Math.random()` or a stable per-client value.
+ */
+export function pickWeightedTarget(targets: RoutingTarget[], roll: number): RoutingTarget | null {
+  const total = targets.reduce((sum, target) => sum + target.weight, 0);
+  if (targets.length === 0 || total <= 0) {
+    return null;
+  }
+
+  let cursor = Math.min(Math.max(roll, 0), 0.999999) * total;
+  for (const target of targets) {
+    cursor -= target.weight;
+    if (cursor < 0) {
+      return target;
+    }
+  }
+
+  return targets[targets.length - 1];
+}
+
+export function targetRegions(targets: RoutingTarget[]): string[] {
+  return [...new Set(targets.flatMap(target => (target.region ? [target.region] : [])))];
+}
+
+/**
+ * Walks regions nearest-first and picks within the first one that has a routable
+ * target, so a region without healthy sandboxes fails over to the next-closest.
+ * Targets without a region form a last-resort group.
+ */
+export function pickRegionalTarget(targets: RoutingTarget[], rankedRegions: string[], roll: number): RoutingTarget | null {
+  for (const region of rankedRegions) {
+    const picked = pickWeightedTarget(
+      targets.filter(target => target.region === region),
+      roll,
+    );
+    if (picked) {
+      return picked;
+    }
+  }
+
+  return pickWeightedTarget(
+    targets.filter(target => !target.region),
+    roll,
+  );
+}
+
+/**
+ * Maps a client key onto [0, 1) with FNV-1a, so the same client keeps the same
+ * roll across requests and edge instances.
+ */
+export function clientRoll(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < key.length; index += 1) {
+    hash ^= key.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
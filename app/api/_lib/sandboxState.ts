@@ -0,0 +1,118 @@
+import type { StateStore } from './stateStore';
+
+export const STATE_KEYS = {
+  active: 'sandbox_active_url',
+  lastKnownGood: 'sandbox_last_known_good_url',
+  previous: 'sandbox_previous_url',
+  state: 'sandbox_state',
+  lease: 'sandbox_watchdog_lease',
+  targets: 'sandbox_targets',
+  events: 'sandbox_events',
+  metrics: 'sandbox_metrics',
+  routerMetrics: 'sandbox_router_metrics',
+  notifications: 'sandbox_notifications',
+  maintenance: 'sandbox_maintenance',
+} as const;
+
+export const LEGACY_STATE_KEYS = {
+  active: 'sandbox.activeUrl',
+  lastKnownGood: 'sandbox.lastKnownGoodUrl',
+  previous: 'sandbox.previousUrl',
+  state: 'sandbox.state',
+} as const;
+
+export type HealthOutcome = 'healthy' | 'degraded' | 'unhealthy';
+
+export type HealthSample = {
+  at: string;
+  /** `degraded` means the check passed but slower than the degraded-latency threshold. */
+  outcome: HealthOutcome;
+  latencyMs: number;
+  reason?: string;
+};
+
+export type SandboxRecord = {
+  id: string;
+  url: string;
+  createdAt: string;
+  status: 'provisioning' | HealthOutcome;
+  /** Region the sandbox was provisioned in; unset when the fleet is not region-aware. */
+  region?: string;
+};
+
+/** What a draining sandbox last reported on its drain endpoint. */
+export type DrainActivity = {
+  inFlight: number;
+  lastActivityAt: string;
+  checkedAt: string;
+};
+
+export type DrainingSandboxRecord = SandboxRecord & {
+  drainStartedAt: string;
+  /** Unset until the sandbox has answered a drain request. */
+  activity?: DrainActivity;
+  /** Displaced by a rollback: left to drain, but no longer routed to, not even for pinned clients. */
+  rolledBack?: boolean;
+  /** First failed attempt to stop it; kept so every tick retries the stop, and no longer routed to. */
+  stopFailedAt?: string;
+};
+
+export type CanaryRecord = {
+  sandbox: SandboxRecord;
+  /** Pool member the canary takes over from once it reaches 100%. */
+  replaces?: SandboxRecord;
+  steps: number[];
+  stepIndex: number;
+  startedAt: string;
+  advancedAt: string;
+};
+
+export type SandboxState = {
+  /** Primary pool member (`pool[0]`), kept for readers that predate the pool. */
+  active?: SandboxRecord;
+  /** Serving sandboxes, newest first. States written before pools existed only carry `active`. */
+  pool?: SandboxRecord[];
+  /** Primary pool member per configured region. */
+  activeByRegion?: Record<string, SandboxRecord>;
+  /** Freshly provisioned sandbox taking a growing share of traffic before it joins the pool. */
+  canary?: CanaryRecord | null;
+  draining: DrainingSandboxRecord[];
+  lastRotationAt?: string | null;
+  lastCheckAt?: string | null;
+  lastFailure?: { reason: string; at: string } | null;
+  /** Set by a rollback: scheduled rotations are skipped until `until`. */
+  rotationHold?: { reason: string; sandboxId: string; until: string } | null;
+  /** Recent health samples per pool member, oldest first. */
+  healthHistory?: Record<string, HealthSample[]>;
+};
+
+export const DEFAULT_STATE: SandboxState = {
+  draining: [],
+};
+
+export type StateReadResult<T> = { value: T; key: string; legacy: boolean } | null;
+
+/**
+ * Reads the first populated key, preferring the current key names over the
+ * legacy dotted ones.
+ */
+export async function readFirstValue<T>(store: StateStore, keys: readonly string[]): Promise<StateReadResult<T>> {
+  for (const [index, key] of keys.entries()) {
+    const value = await store.get<T>(key);
+    if (value) {
+      return { value, key, legacy: index > 0 };
+    }
+  }
+  return null;
+}
+
+export async function readSandboxState(store: StateStore): Promise<StateReadResult<SandboxState>> {
+  return readFirstValue<SandboxState>(store, [STATE_KEYS.state, LEGACY_STATE_KEYS.state]);
+}
+
+export function resolvePool(state: SandboxState): SandboxRecord[] {
+  if (Array.isArray(state.pool)) {
+    return state.pool;
+  }
+  return state.active ? [state.active] : [];
+}
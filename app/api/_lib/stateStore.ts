@@ -0,0 +1,201 @@
+import { get } from '@vercel/edge-config';
+import { withSpan } from './tracing';
+
+const STORE_FLAG_NAME = 'SANDBOX_STATE_STORE';
+const DEFAULT_STATE_FILE = '.sandbox-state.json';
+
+export type StateStoreKind = 'edge-config' | 'file' | 'memory';
+
+export type StateStoreOperation =
+  | {
+      operation: 'upsert';
+      key: string;
+      value: unknown;
+    }
+  | {
+      operation: 'delete';
+      key: string;
+    };
+
+export type StateStore = {
+  kind: StateStoreKind;
+  get<T>(key: string): Promise<T | undefined>;
+  update(operations: StateStoreOperation[]): Promise<void>;
+};
+
+type StateStoreGlobal = typeof globalThis & {
+  __sandboxStateStore?: StateStore;
+  __sandboxMemoryState?: Map<string, unknown>;
+};
+
+export function resolveStateStoreKind(): StateStoreKind {
+  const value = process.env[STORE_FLAG_NAME]?.trim().toLowerCase();
+
+  if (!value || value === 'edge-config' || value === 'edge') {
+    return 'edge-config';
+  }
+
+  if (value === 'file' || value === 'memory') {
+    return value;
+  }
+
+  throw new Error(`Invalid ${STORE_FLAG_NAME} value "${value}"`);
+}
+
+/** Node.js routes only; the middleware reads through `getRoutingStateStore`. */
+export function getStateStore(): StateStore {
+  const scope = globalThis as StateStoreGlobal;
+  if (!scope.__sandboxStateStore) {
+    const kind = resolveStateStoreKind();
+    if (kind !== 'edge-config' && process.env.NEXT_RUNTIME === 'edge') {
+      throw new Error(`State store "${kind}" is only available in Node.js routes`);
+    }
+    scope.__sandboxStateStore = createStateStore(kind);
+  }
+  return scope.__sandboxStateStore;
+}
+
+export function createStateStore(kind: StateStoreKind): StateStore {
+  switch (kind) {
+    case 'memory':
+      return createMemoryStateStore();
+    case 'file':
+      return createFileStateStore(process.env.SANDBOX_STATE_FILE ?? DEFAULT_STATE_FILE);
+    case 'edge-config':
+    default:
+      return createEdgeConfigStateStore();
+  }
+}
+
+export function createEdgeConfigStateStore(): StateStore {
+  return {
+    kind: 'edge-config',
+    async get<T>(key: string) {
+      return (await get<T>(key)) ?? undefined;
+    },
+    async update(operations) {
+      const attributes = {
+        'state_store.kind': 'edge-config',
+        'state_store.keys': operations.map(operation => operation.key),
+      };
+
+      await withSpan('state-store.update', { attributes }, async span => {
+        const edgeConfigId = requireEnv('EDGE_CONFIG_ID');
+        const edgeConfigToken = requireEnv('EDGE_CONFIG_TOKEN');
+
+        const response = await fetch(`https://api.vercel.com/v1/edge-config/${edgeConfigId}/items`, {
+          method: 'PATCH',
+          headers: {
+            Authorization: `Bearer ${edgeConfigToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ items: operations }),
+        });
+        span.setAttribute('http.response.status_code', response.status);
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`edge-config-update-failed: ${response.status} ${error}`);
+        }
+      });
+    },
+  };
+}
+
+/**
+ * Process-local store. Values live on `globalThis` so every route module in the
+ * same server process shares them; nothing survives a restart.
+ */
+export function createMemoryStateStore(): StateStore {
+  const scope = globalThis as StateStoreGlobal;
+  const items = (scope.__sandboxMemoryState ??= new Map<string, unknown>());
+
+  return {
+    kind: 'memory',
+    async get<T>(key: string) {
+      const value = items.get(key);
+      return value === undefined ? undefined : (cloneValue(value) as T);
+    },
+    async update(operations) {
+      applyOperations(items, operations);
+    },
+  };
+}
+
+/**
+ * JSON file store for local development. Node.js only: the file system module is
+ * loaded lazily so the edge bundle never pulls it in.
+ */
+export function createFileStateStore(filePath: string): StateStore {
+  const readItems = async (): Promise<Map<string, unknown>> => {
+    const { readFile } = await loadFileSystem();
+
+    try {
+      const raw = await readFile(filePath, 'utf8');
+      return new Map(Object.entries(JSON.parse(raw) as Record<string, unknown>));
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return new Map();
+      }
+      throw error;
+    }
+  };
+
+  let pending: Promise<void> = Promise.resolve();
+
+  return {
+    kind: 'file',
+    async get<T>(key: string) {
+      const items = await readItems();
+      return items.get(key) as T | undefined;
+    },
+    async update(operations) {
+      const run = pending.then(async () => {
+        const { rename, writeFile } = await loadFileSystem();
+        const items = await readItems();
+        applyOperations(items, operations);
+
+        const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+        await writeFile(tempPath, JSON.stringify(Object.fromEntries(items), null, 2), 'utf8');
+        await rename(tempPath, filePath);
+      });
+
+      pending = run.catch(() => undefined);
+      await run;
+    },
+  };
+}
+
+function applyOperations(items: Map<string, unknown>, operations: StateStoreOperation[]) {
+  for (const operation of operations) {
+    if (operation.operation === 'delete') {
+      items.delete(operation.key);
+    } else {
+      items.set(operation.key, cloneValue(operation.value));
+    }
+  }
+}
+
+function loadFileSystem(): Promise<typeof import('node:fs/promises')> {
+  // NEXT_RUNTIME is inlined per bundle, so the edge build drops this branch entirely.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    return import('node:fs/promises');
+  }
+  return Promise.reject(new Error('State store "file" requires the Node.js runtime'));
+}
+
+function isFileNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'ENOENT';
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+}
+
+function cloneValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,62 @@
+import {
+  context,
+  propagation,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Link,
+  type Span,
+} from '@opentelemetry/api';
+
+const TRACER_NAME = 'next-app';
+
+type SpanOptions = {
+  attributes?: Attributes;
+  /**
+   * Starts a new trace instead of joining the active one. The span the caller was
+   * running under, if any, is kept as a link.
+   */
+  root?: boolean;
+};
+
+/**
+ * Runs `run` inside an active span that ends when it settles. A throw marks the
+ * span as failed and records the exception before it propagates.
+ */
+export function withSpan<T>(name: string, options: SpanOptions, run: (span: Span) => Promise<T>): Promise<T> {
+  const parent = trace.getActiveSpan()?.spanContext();
+  const links: Link[] = options.root && parent ? [{ context: parent }] : [];
+
+  // Looked up per call: a tracer taken before instrumentation registers the provider stays a no-op.
+  const tracer = trace.getTracer(TRACER_NAME);
+
+  return tracer.startActiveSpan(name, { attributes: options.attributes, root: options.root, links }, async span => {
+    try {
+      return await run(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/** Marks the active span as failed without throwing, for outcomes reported as values. */
+export function markSpanFailed(span: Span, message: string) {
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/** Writes `traceparent` (and any other configured propagation headers) for the active span. */
+export function injectTraceContext(headers: Headers) {
+  propagation.inject(context.active(), headers, {
+    set: (carrier, key, value) => carrier.set(key, value),
+  });
+}
+
+/** Ids of the active span, for joining log records with traces. */
+export function activeTraceFields(): { traceId?: string; spanId?: string } {
+  const span = trace.getActiveSpan()?.spanContext();
+  return span && trace.isSpanContextValid(span) ? { traceId: span.traceId, spanId: span.spanId } : {};
+}
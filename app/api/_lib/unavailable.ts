@@ -0,0 +1,161 @@
+import { intEnv } from './env';
+import type { MaintenanceMode } from './maintenance';
+import type { MetricsSnapshot } from './metrics';
+import { STATE_KEYS } from './sandboxState';
+import type { StateStore } from './stateStore';
+
+const DEFAULT_PROVISION_ESTIMATE_MS = 5 * 60 * 1000;
+// Matches the watchdog cron in vercel.json.
+const WATCHDOG_TICK_INTERVAL_MS = 5 * 60 * 1000;
+const MIN_RETRY_AFTER_S = 5;
+const MAX_HOLD_MS = 20_000;
+
+/** The fields of the watchdog lease this module reads. */
+type LeaseSnapshot = { operation: string; operationStartedAt?: string; expiresAt: string };
+
+export type RecoveryPhase = 'promoting' | 'provisioning' | 'idle';
+
+export type RecoveryOutlook = {
+  phase: RecoveryPhase;
+  /** Best guess until a sandbox serves again. */
+  etaMs: number;
+};
+
+/**
+ * Estimates when routing recovers from the watchdog lease: a holder that is
+ * promoting is about to write the routing keys, one that is provisioning is as
+ * far along as its elapsed time against the mean successful provision, and with
+ * no holder recovery waits for the next tick plus a whole provision.
+ */
+export async function recoveryOutlook(store: StateStore): Promise<RecoveryOutlook> {
+  const [lease, metrics] = await Promise.all([
+    store.get<LeaseSnapshot>(STATE_KEYS.lease),
+    store.get<MetricsSnapshot>(STATE_KEYS.metrics),
+  ]);
+  const now = Date.now();
+  const live = lease && Date.parse(lease.expiresAt) > now;
+
+  if (live && lease.operation === 'promote') {
+    return { phase: 'promoting', etaMs: 0 };
+  }
+
+  const expectedMs = typicalProvisionMs(metrics);
+  if (live && lease.operation === 'provision') {
+    const startedAt = lease.operationStartedAt ? Date.parse(lease.operationStartedAt) : now;
+    return { phase: 'provisioning', etaMs: Math.max(0, expectedMs - (now - startedAt)) };
+  }
+
+  const untilNextTick = WATCHDOG_TICK_INTERVAL_MS - (now % WATCHDOG_TICK_INTERVAL_MS);
+  return { phase: 'idle', etaMs: untilNextTick + expectedMs };
+}
+
+/** Seconds for `Retry-After`; an overrunning provision still asks clients to back off briefly. */
+export function retryAfterSeconds(etaMs: number): number {
+  return Math.max(MIN_RETRY_AFTER_S, Math.ceil(etaMs / 1000));
+}
+
+/**
+ * How long the middleware may hold a request while a promotion is imminent,
+ * from `SANDBOX_UNAVAILABLE_HOLD_MS`. Unset or `0` answers with a 503 at once.
+ */
+export function unavailableHoldMs(): number {
+  return intEnv('SANDBOX_UNAVAILABLE_HOLD_MS', 0, { max: MAX_HOLD_MS });
+}
+
+type UnavailableOptions =
+  | { reason: 'maintenance'; maintenance: MaintenanceMode }
+  | { reason: 'no-healthy-sandbox'; outlook: RecoveryOutlook };
+
+/** 503 with `Retry-After`: a branded page for browsers, JSON for everything else. */
+export function unavailableResponse(request: Request, options: UnavailableOptions): Response {
+  const retryAfter =
+    options.reason === 'maintenance'
+      ? retryAfterSeconds(options.maintenance.until ? Date.parse(options.maintenance.until) - Date.now() : 0)
+      : retryAfterSeconds(options.outlook.etaMs);
+  const message =
+    options.reason === 'maintenance'
+      ? (options.maintenance.message ?? 'We are carrying out scheduled maintenance and will be back shortly.')
+      : PHASE_MESSAGES[options.outlook.phase];
+  const headers = { 'cache-control': 'no-store', 'retry-after': String(retryAfter) };
+
+  if (!prefersHtml(request)) {
+    return Response.json(
+      {
+        status: options.reason === 'maintenance' ? 'maintenance' : 'unavailable',
+        message,
+        retryAfter,
+        ...(options.reason === 'maintenance'
+          ? { until: options.maintenance.until ?? null }
+          : { phase: options.outlook.phase }),
+      },
+      { status: 503, headers },
+    );
+  }
+
+  const title = options.reason === 'maintenance' ? 'Down for maintenance' : 'Starting up';
+  return new Response(renderPage(title, message, retryAfter), {
+    status: 503,
+    headers: { ...headers, 'content-type': 'text/html; charset=utf-8' },
+  });
+}
+
+const PHASE_MESSAGES: Record<RecoveryPhase, string> = {
+  promoting: 'A fresh instance is going live right now.',
+  provisioning: 'A fresh instance is being prepared and will be live shortly.',
+  idle: 'No instance is available right now. A replacement starts automatically.',
+};
+
+function typicalProvisionMs(metrics: MetricsSnapshot | undefined): number {
+  const succeeded = metrics?.histograms.sandbox_provision_duration_seconds?.['outcome="succeeded"'];
+  return succeeded && succeeded.count > 0 ? (succeeded.sum / succeeded.count) * 1000 : DEFAULT_PROVISION_ESTIMATE_MS;
+}
+
+/** Browser navigations list `text/html`; API clients and fetches usually do not. */
+function prefersHtml(request: Request): boolean {
+  return (request.headers.get('accept') ?? '').includes('text/html');
+}
+
+function renderPage(title: string, message: string, retryAfter: number): string {
+  // Reloads itself once the estimate has passed, but never more often than every 30 seconds.
+  const refresh = Math.max(30, retryAfter);
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="refresh" content="${refresh}">
+<title>${escapeHtml(title)} · Vercel Sandbox Router</title>
+<style>
+  :root { color-scheme: light; font-family: 'Inter', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; line-height: 1.5; color: #0f172a; }
+  body { margin: 0; min-height: 100vh; display: grid; place-items: center; padding: 1.75rem; box-sizing: border-box;
+    background: radial-gradient(circle at 20% 20%, rgba(79, 70, 229, 0.08), transparent 40%), radial-gradient(circle at 80% 10%, rgba(236, 72, 153, 0.08), transparent 42%), #f8fafc; }
+  main { width: min(560px, 100%); padding: 2.5rem; border-radius: 1.25rem; background: #fff; box-shadow: 0 20px 45px rgba(15, 23, 42, 0.08); }
+  .eyebrow { text-transform: uppercase; letter-spacing: 0.12em; font-size: 0.75rem; font-weight: 600; color: #4f46e5; }
+  h1 { margin: 0.5rem 0 1rem; font-size: 2rem; }
+  p { margin: 0; color: #475569; }
+  .retry { margin-top: 1.5rem; font-size: 0.875rem; color: #64748b; }
+</style>
+</head>
+<body>
+<main>
+  <span class="eyebrow">Vercel Sandbox Router</span>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(message)}</p>
+  <p class="retry">This page reloads automatically. Expected back in about ${escapeHtml(formatWait(retryAfter))}.</p>
+</main>
+</body>
+</html>
+`;
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 90) {
+    return `${seconds} seconds`;
+  }
+  const minutes = Math.round(seconds / 60);
+  return minutes < 90 ? `${minutes} minutes` : `${Math.round(minutes / 60)} hours`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
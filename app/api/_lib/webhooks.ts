@@ -0,0 +1,329 @@
+import { intEnv } from './env';
+import { createLogger } from './logger';
+import { STATE_KEYS } from './sandboxState';
+import { getStateStore } from './stateStore';
+
+const DEFAULT_DEDUPE_MS = 15 * 60 * 1000;
+const DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const DELIVERY_TIMEOUT_MS = 5_000;
+// Stamps older than this are pruned from the store however the window is configured.
+const MAX_STAMP_AGE_MS = 24 * 60 * 60 * 1000;
+
+export const NOTIFICATION_TYPES = [
+  'watchdog.tick.failed',
+  'provision.failed',
+  'promotion',
+  'rollback',
+  'decommission.failed',
+  'health.failing',
+  'routing.stale',
+  'routing.unavailable',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * Raised by the middleware on the request path, where a state-store round trip
+ * per isolate is too costly (and Edge Config writes would race); these are
+ * de-duplicated per instance only, so each instance reports a condition once.
+ */
+const INSTANCE_DEDUPED_TYPES: readonly NotificationType[] = ['routing.stale', 'routing.unavailable'];
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export type NotificationInput = {
+  severity: NotificationSeverity;
+  title: string;
+  text: string;
+  sandboxIds?: string[];
+  region?: string;
+  detail?: Record<string, unknown>;
+  /**
+   * Identifies repeats of the same condition, e.g. the failing sandbox. Repeats
+   * within the de-duplication window are counted instead of sent.
+   */
+  dedupeKey?: string;
+};
+
+export type Notification = Omit<NotificationInput, 'dedupeKey'> & {
+  id: string;
+  type: NotificationType;
+  at: string;
+  sandboxIds: string[];
+  /** Repeats suppressed since the previous delivery of this condition. */
+  suppressed: number;
+};
+
+type WebhookTarget = {
+  url: string;
+  format: 'json' | 'slack';
+  /** Types to deliver; every type when omitted. */
+  events?: NotificationType[];
+  /** Signing secret; defaults to `SANDBOX_WEBHOOK_SECRET`. */
+  secret?: string;
+};
+
+type DedupeStamp = { sentAt: number; suppressed: number };
+
+type WebhookGlobal = typeof globalThis & {
+  __sandboxWebhookDeliveries?: Set<Promise<void>>;
+  __sandboxWebhookStamps?: Map<string, DedupeStamp>;
+};
+
+const logger = createLogger({ component: 'webhooks' });
+
+/**
+ * Sends `type` to every configured webhook that subscribes to it. Delivery runs in
+ * the background; await `flushNotifications` before the invocation ends.
+ */
+export function notify(type: NotificationType, input: NotificationInput) {
+  let targets: WebhookTarget[];
+  try {
+    targets = webhookTargets().filter(target => !target.events || target.events.includes(type));
+  } catch (error) {
+    // Notifying sits on failure paths; a bad configuration must not replace the original error.
+    logger.error('webhooks.config-error', { type, error });
+    return;
+  }
+  if (targets.length === 0) {
+    return;
+  }
+
+  const delivery = deliver(type, input, targets).catch(error => {
+    logger.warn('webhooks.notify-error', { type, error });
+  });
+  const deliveries = pendingDeliveries();
+  deliveries.add(delivery);
+  void delivery.finally(() => deliveries.delete(delivery));
+}
+
+export async function flushNotifications(): Promise<void> {
+  await Promise.all([...pendingDeliveries()]);
+}
+
+async function deliver(type: NotificationType, input: NotificationInput, targets: WebhookTarget[]) {
+  const { dedupeKey, ...content } = input;
+  const suppressed = await claimDelivery(`${type}:${dedupeKey ?? '*'}`, !INSTANCE_DEDUPED_TYPES.includes(type));
+  if (suppressed === null) {
+    return;
+  }
+
+  const notification: Notification = {
+    ...content,
+    id: crypto.randomUUID(),
+    type,
+    at: new Date().toISOString(),
+    sandboxIds: input.sandboxIds ?? [],
+    suppressed,
+  };
+
+  await Promise.all(targets.map(target => deliverTo(target, notification)));
+}
+
+/**
+ * Decides whether this occurrence goes out. Returns how many repeats were held
+ * back since the last delivery, or `null` to hold this one back too. Stamps live
+ * in memory for the instance and, when `shared`, in the state store across invocations.
+ */
+async function claimDelivery(key: string, shared: boolean): Promise<number | null> {
+  const now = Date.now();
+  const windowMs = intEnv('SANDBOX_WEBHOOK_DEDUPE_MS', DEFAULT_DEDUPE_MS);
+  const local = localStamps();
+  const known = local.get(key);
+
+  if (known && now - known.sentAt < windowMs) {
+    known.suppressed += 1;
+    return null;
+  }
+
+  if (!shared) {
+    local.set(key, { sentAt: now, suppressed: 0 });
+    return known?.suppressed ?? 0;
+  }
+
+  const stamps = await readStamps();
+  const stored = stamps[key];
+
+  if (stored && now - stored.sentAt < windowMs) {
+    const held = { ...stored, suppressed: stored.suppressed + 1 };
+    local.set(key, held);
+    await saveStamps(stamps, key, held, now);
+    return null;
+  }
+
+  const suppressed = Math.max(stored?.suppressed ?? 0, known?.suppressed ?? 0);
+  const stamp = { sentAt: now, suppressed: 0 };
+  local.set(key, stamp);
+  await saveStamps(stamps, key, stamp, now);
+  return suppressed;
+}
+
+/** An unreadable store degrades to per-instance de-duplication rather than silence. */
+async function readStamps(): Promise<Record<string, DedupeStamp>> {
+  try {
+    return (await getStateStore().get<Record<string, DedupeStamp>>(STATE_KEYS.notifications)) ?? {};
+  } catch (error) {
+    logger.warn('webhooks.dedupe-read-error', { error });
+    return {};
+  }
+}
+
+async function saveStamps(stamps: Record<string, DedupeStamp>, key: string, stamp: DedupeStamp, now: number) {
+  const next = Object.fromEntries(
+    Object.entries({ ...stamps, [key]: stamp }).filter(([, entry]) => now - entry.sentAt < MAX_STAMP_AGE_MS),
+  );
+  try {
+    await getStateStore().update([{ operation: 'upsert', key: STATE_KEYS.notifications, value: next }]);
+  } catch (error) {
+    logger.warn('webhooks.dedupe-write-error', { error });
+  }
+}
+
+async function deliverTo(target: WebhookTarget, notification: Notification) {
+  const body = JSON.stringify(target.format === 'slack' ? slackPayload(notification) : notification);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const secret = target.secret ?? process.env.SANDBOX_WEBHOOK_SECRET;
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'user-agent': 'sandbox-watchdog-webhooks/1.0',
+    'x-sandbox-webhook-id': notification.id,
+    'x-sandbox-webhook-timestamp': timestamp,
+  };
+  if (secret) {
+    headers['x-sandbox-webhook-signature'] = `v1=${await sign(secret, `${timestamp}.${body}`)}`;
+  }
+
+  for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS; attempt += 1) {
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers,
+        body,
+        cache: 'no-store',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (response.ok) {
+        logger.info('webhooks.delivered', {
+          type: notification.type,
+          id: notification.id,
+          host: hostOf(target.url),
+          attempt,
+        });
+        return;
+      }
+      // Other client errors will not change on a retry.
+      if (response.status < 500 && response.status !== 429) {
+        throw new PermanentDeliveryError(`webhook responded with ${response.status}`);
+      }
+      throw new Error(`webhook responded with ${response.status}`);
+    } catch (error) {
+      const lastAttempt = attempt === DELIVERY_ATTEMPTS || error instanceof PermanentDeliveryError;
+      logger.warn('webhooks.delivery-error', {
+        type: notification.type,
+        id: notification.id,
+        host: hostOf(target.url),
+        attempt,
+        final: lastAttempt,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (lastAttempt) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+class PermanentDeliveryError extends Error {}
+
+const SLACK_ICONS: Record<NotificationSeverity, string> = {
+  info: ':information_source:',
+  warning: ':warning:',
+  critical: ':rotating_light:',
+};
+
+function slackPayload(notification: Notification): Record<string, unknown> {
+  const icon = SLACK_ICONS[notification.severity];
+  const context = [
+    notification.sandboxIds.length > 0 ? `sandboxes: ${notification.sandboxIds.join(', ')}` : null,
+    notification.region ? `region: ${notification.region}` : null,
+    notification.suppressed > 0 ? `${notification.suppressed} similar notifications suppressed` : null,
+  ].filter(Boolean);
+
+  return {
+    text: `${icon} *${notification.title}*\n${notification.text}${context.length > 0 ? `\n_${context.join(' · ')}_` : ''}`,
+  };
+}
+
+/** Hex HMAC-SHA256; receivers recompute it over `<timestamp>.<body>`. */
+async function sign(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+  return Array.from(signature, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+/**
+ * `SANDBOX_WEBHOOKS` is a JSON array of `{ url, format?, events?, secret? }`;
+ * `format` is `json` (default) or `slack`. Errors leave the value out because
+ * webhook URLs and secrets are credentials.
+ */
+function webhookTargets(): WebhookTarget[] {
+  const value = process.env.SANDBOX_WEBHOOKS;
+  if (!value) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid SANDBOX_WEBHOOKS value');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid SANDBOX_WEBHOOKS value');
+  }
+
+  return parsed.map(entry => {
+    const { url, format = 'json', events, secret } = (entry ?? {}) as Record<string, unknown>;
+    const validEvents =
+      events === undefined ||
+      (Array.isArray(events) && events.every(event => NOTIFICATION_TYPES.includes(event as NotificationType)));
+    if (
+      typeof url !== 'string' ||
+      (format !== 'json' && format !== 'slack') ||
+      !validEvents ||
+      (secret !== undefined && typeof secret !== 'string')
+    ) {
+      throw new Error('Invalid SANDBOX_WEBHOOKS value');
+    }
+    return {
+      url,
+      format,
+      events: events as NotificationType[] | undefined,
+      secret: secret as string | undefined,
+    };
+  });
+}
+
+function pendingDeliveries(): Set<Promise<void>> {
+  const scope = globalThis as WebhookGlobal;
+  return (scope.__sandboxWebhookDeliveries ??= new Set());
+}
+
+function localStamps(): Map<string, DedupeStamp> {
+  const scope = globalThis as WebhookGlobal;
+  return (scope.__sandboxWebhookStamps ??= new Map());
+}
@@ -1,8 +1,13 @@
 import { NextResponse } from 'next/server';
-import { get } from '@vercel/edge-config';
+import { healthReportHasFailures, runHealthChecks } from '../_lib/healthChecks';
+import { authorizeInternalRequest, carriesInternalSignature, internalAuthConfigured } from '../_lib/internalAuth';
+import { createLogger } from '../_lib/logger';
 import { monitoringRoutesDisabled } from '../_lib/monitoringToggle';
+import { readSandboxState, resolvePool, type SandboxState } from '../_lib/sandboxState';
+import { getStateStore } from '../_lib/stateStore';
 
 const startedAt = Date.now();
+const logger = createLogger({ component: 'health' });
 
 export const dynamic = 'force-dynamic';
 
@@ -13,42 +18,57 @@ export async function GET(request: Request) {
 
   const now = Date.now();
   const sandboxOrigin = request.headers.get('x-sandbox-origin') ?? process.env.SANDBOX_SELF_URL ?? null;
-  const watchdogState = await readWatchdogState();
-
-  return NextResponse.json({
-    status: 'ok',
+  const summary = {
     service: 'next-app',
     sandboxOrigin,
     env: sandboxOrigin ? 'sandbox' : 'router',
-    uptimeSeconds: Math.round(process.uptime()),
     timestamp: new Date(now).toISOString(),
+  };
+
+  // Checks, pool membership and history are for the watchdog and the app itself, which sign their requests.
+  // An unsigned caller only learns that the process answers, and cannot trigger the probes (which reset the
+  // lag histogram). A signature that fails verification gets 401 rather than a summary that reads as healthy.
+  if (internalAuthConfigured()) {
+    if (!carriesInternalSignature(request)) {
+      return NextResponse.json({ status: 'ok', ...summary });
+    }
+    const rejection = await authorizeInternalRequest(request);
+    if (rejection) {
+      return rejection;
+    }
+  }
+
+  const [checks, watchdogState] = await Promise.all([
+    runHealthChecks({ server: sandboxOrigin !== null }),
+    readWatchdogState(),
+  ]);
+
+  // Always 200 so the watchdog can read the sub-checks; it decides what counts as unhealthy.
+  return NextResponse.json({
+    status: healthReportHasFailures(checks) ? 'failing' : 'ok',
+    ...summary,
+    uptimeSeconds: Math.round(process.uptime()),
     watchdogLastCheckAt: watchdogState?.lastCheckAt ?? null,
     watchdogLastRotationAt: watchdogState?.lastRotationAt ?? null,
+    watchdogPool: watchdogState
+      ? resolvePool(watchdogState).map(member => ({ id: member.id, status: member.status, region: member.region ?? null }))
+      : [],
+    watchdogHealthHistory: watchdogState?.healthHistory ?? {},
+    checks,
   });
 }
 
-const EDGE_CONFIG_STATE_KEYS = ['sandbox_state', 'sandbox.state'] as const;
-
-type WatchdogState = {
-  lastCheckAt?: string | null;
-  lastRotationAt?: string | null;
-};
-
-async function readWatchdogState(): Promise<WatchdogState | null> {
-  for (const key of EDGE_CONFIG_STATE_KEYS) {
-    try {
-      const state = await get<WatchdogState | null>(key);
-      if (state) {
-        return state;
-      }
-    } catch (error) {
-      console.warn('health.edge-config.read-error', {
-        key,
-        message: error instanceof Error ? error.message : 'unknown-error',
-      });
-      break;
-    }
-  }
+async function readWatchdogState(): Promise<SandboxState | null> {
+  const store = getStateStore();
 
-  return null;
+  try {
+    const stored = await readSandboxState(store);
+    return stored?.value ?? null;
+  } catch (error) {
+    logger.warn('health.state-store.read-error', {
+      store: store.kind,
+      message: error instanceof Error ? error.message : 'unknown-error',
+    });
+    return null;
+  }
 }
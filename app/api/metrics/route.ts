@@ -0,0 +1,46 @@
+import { authorizeAdminRequest } from '../_lib/adminAuth';
+import { authorizeInternalRequest } from '../_lib/internalAuth';
+import { readMetrics, recordRouterMetrics, renderPrometheus } from '../_lib/metrics';
+import { monitoringRoutesDisabled } from '../_lib/monitoringToggle';
+import { getStateStore } from '../_lib/stateStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/** Router and watchdog metrics in the Prometheus text format; scrape with the admin token as bearer. */
+export async function GET(request: Request) {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rejection = await authorizeAdminRequest(request, 'status');
+  if (rejection) {
+    return rejection;
+  }
+
+  return new Response(renderPrometheus(await readMetrics(getStateStore())), {
+    headers: {
+      'cache-control': 'no-store',
+      'content-type': 'text/plain; version=0.0.4; charset=utf-8',
+    },
+  });
+}
+
+/** A batch of router counters from the middleware (`flushRouterMetrics`); signed requests only. */
+export async function POST(request: Request) {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rejection = await authorizeInternalRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  const batch = await request.json().catch(() => null);
+  if (!(await recordRouterMetrics(getStateStore(), batch))) {
+    return Response.json({ status: 'invalid-batch', detail: 'Expected router counters' }, { status: 400 });
+  }
+  return new Response(null, { status: 204 });
+}
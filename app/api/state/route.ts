@@ -0,0 +1,33 @@
+import { authorizeInternalRequest, internalAuthConfigured } from '../_lib/internalAuth';
+import { ROUTING_STATE_KEYS } from '../_lib/routingStateStore';
+import { getStateStore } from '../_lib/stateStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * One routing key of the file or memory store, for the middleware on the edge
+ * runtime (see `getRoutingStateStore`). With Edge Config the middleware reads the
+ * store itself and this route does not exist.
+ */
+export async function GET(request: Request) {
+  const store = getStateStore();
+  if (store.kind === 'edge-config') {
+    return new Response(null, { status: 404 });
+  }
+
+  if (internalAuthConfigured()) {
+    const rejection = await authorizeInternalRequest(request);
+    if (rejection) {
+      return rejection;
+    }
+  }
+
+  const key = new URL(request.url).searchParams.get('key');
+  if (!key || !ROUTING_STATE_KEYS.includes(key)) {
+    return Response.json({ status: 'invalid-key', detail: `"${key ?? ''}" is not a routing key` }, { status: 400 });
+  }
+
+  return Response.json({ value: (await store.get(key)) ?? null }, { headers: { 'cache-control': 'no-store' } });
+}
@@ -0,0 +1,269 @@
+import { del, get, head, put } from '@vercel/blob';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { access, mkdir, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { intEnv } from '../_lib/env';
+import { describeError, log } from './log';
+import { runSandboxCommand } from './sandboxCommand';
+import type { SandboxHandle } from './sandboxProvider';
+
+const STORE_FLAG_NAME = 'SANDBOX_ARTIFACT_STORE';
+const DEFAULT_ARTIFACT_DIR = '.sandbox-artifacts';
+const ARTIFACT_PREFIX = 'sandbox-artifacts';
+const DEFAULT_MAX_RESTORE_BYTES = 512 * 1024 * 1024;
+/** Restores are copied into the sandbox in parts of this size, so the watchdog never holds a whole archive. */
+const RESTORE_PART_BYTES = 16 * 1024 * 1024;
+
+export type ArtifactStoreKind = 'fs' | 'blob';
+
+/**
+ * Where build artifacts live between provisions. Restores go through the
+ * watchdog, so sandboxes never need credentials for the store.
+ */
+export type ArtifactStore = {
+  kind: ArtifactStoreKind;
+  exists(key: string): Promise<boolean>;
+  /** `fresh` skips any cache in front of the store, for entries that are rewritten in place. */
+  read(key: string, options?: { fresh?: boolean }): Promise<Readable | null>;
+  write(key: string, body: Readable, contentType?: string): Promise<void>;
+  remove(key: string): Promise<void>;
+};
+
+export type BuildCacheKeys = {
+  commitSha: string;
+  lockfileHash: string;
+  /** Standalone server output for one commit and lockfile. */
+  build: string;
+  /** pnpm store for one lockfile; reused across commits that share it. */
+  deps: string;
+};
+
+export type BuildCachePlan = {
+  store: ArtifactStore;
+  keys: BuildCacheKeys;
+  buildHit: boolean;
+  depsHit: boolean;
+};
+
+let artifactStore: ArtifactStore | null | undefined;
+
+export function getArtifactStore(): ArtifactStore | null {
+  if (artifactStore === undefined) {
+    artifactStore = createArtifactStore(process.env[STORE_FLAG_NAME]?.trim().toLowerCase());
+  }
+  return artifactStore;
+}
+
+function createArtifactStore(kind: string | undefined): ArtifactStore | null {
+  if (!kind || kind === 'none' || kind === 'off') {
+    return null;
+  }
+
+  if (kind === 'fs') {
+    return createFsArtifactStore(process.env.SANDBOX_ARTIFACT_DIR ?? DEFAULT_ARTIFACT_DIR);
+  }
+
+  if (kind === 'blob') {
+    return createBlobArtifactStore();
+  }
+
+  throw new Error(`Invalid ${STORE_FLAG_NAME} value "${kind}"`);
+}
+
+function createFsArtifactStore(root: string): ArtifactStore {
+  const pathFor = (key: string) => join(root, key);
+
+  return {
+    kind: 'fs',
+    async exists(key) {
+      try {
+        await access(pathFor(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async read(key) {
+      return (await this.exists(key)) ? createReadStream(pathFor(key)) : null;
+    },
+    async write(key, body) {
+      const target = pathFor(key);
+      await mkdir(dirname(target), { recursive: true });
+      await pipeline(body, createWriteStream(target));
+    },
+    async remove(key) {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
+
+function createBlobArtifactStore(): ArtifactStore {
+  return {
+    kind: 'blob',
+    async exists(key) {
+      try {
+        await head(key);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async read(key, { fresh = false } = {}) {
+      const result = await get(key, { access: 'private', useCache: !fresh });
+      return result?.stream ? Readable.fromWeb(result.stream as Parameters<typeof Readable.fromWeb>[0]) : null;
+    },
+    async write(key, body, contentType = 'application/gzip') {
+      await put(key, body, {
+        access: 'private',
+        addRandomSuffix: false,
+        allowOverwrite: true,
+        contentType,
+      });
+    },
+    async remove(key) {
+      await del(key);
+    },
+  };
+}
+
+/**
+ * Works out the cache keys for a fresh checkout and whether the store already
+ * holds matching artifacts. Returns `null` when no artifact store is configured.
+ */
+export async function planBuildCache(sandbox: SandboxHandle, workdir: string): Promise<BuildCachePlan | null> {
+  const store = getArtifactStore();
+  if (!store) {
+    return null;
+  }
+
+  const commit = await runSandboxCommand(sandbox, 'cache-commit-sha', {
+    cmd: 'git',
+    args: ['rev-parse', 'HEAD'],
+    cwd: workdir,
+  });
+  const lockfile = await runSandboxCommand(sandbox, 'cache-lockfile-hash', {
+    cmd: 'sh',
+    args: ['-c', 'sha256sum pnpm-lock.yaml 2>/dev/null || echo no-lockfile'],
+    cwd: workdir,
+  });
+
+  const commitSha = commit.stdout.trim();
+  const lockfileHash = lockfile.stdout.trim().split(/\s+/)[0].slice(0, 16);
+  const keys: BuildCacheKeys = {
+    commitSha,
+    lockfileHash,
+    build: `${ARTIFACT_PREFIX}/build-${commitSha}-${lockfileHash}.tgz`,
+    deps: `${ARTIFACT_PREFIX}/deps-${lockfileHash}.tgz`,
+  };
+
+  const [buildHit, depsHit] = await Promise.all([store.exists(keys.build), store.exists(keys.deps)]);
+  log('sandbox.cache.plan', { sandboxId: sandbox.id, store: store.kind, ...keys, buildHit, depsHit });
+
+  return { store, keys, buildHit, depsHit };
+}
+
+/**
+ * Copies an artifact into the sandbox and unpacks it into `targetDir`. Returns
+ * false on any failure so the caller can fall back to a full build.
+ */
+export async function restoreArtifact(
+  sandbox: SandboxHandle,
+  store: ArtifactStore,
+  key: string,
+  targetDir: string,
+): Promise<boolean> {
+  const archivePath = scratchPath(sandbox, key);
+
+  try {
+    const body = await store.read(key);
+    if (!body) {
+      return false;
+    }
+
+    const maxBytes = intEnv('SANDBOX_ARTIFACT_MAX_BYTES', DEFAULT_MAX_RESTORE_BYTES, { min: 1 });
+    await copyInParts(sandbox, body, archivePath, maxBytes);
+    await runSandboxCommand(sandbox, 'cache-restore', {
+      cmd: 'sh',
+      args: [
+        '-c',
+        'mkdir -p "$1" && cat "$2".part-* | tar -xzf - -C "$1"; status=$?; rm -f "$2".part-*; exit $status',
+        'restore',
+        targetDir,
+        archivePath,
+      ],
+    });
+    log('sandbox.cache.restored', { sandboxId: sandbox.id, key, targetDir });
+    return true;
+  } catch (error) {
+    log('sandbox.cache.restore-error', { sandboxId: sandbox.id, key, error: describeError(error) }, 'warn');
+    return false;
+  }
+}
+
+/**
+ * Packs `sourceDir` inside the sandbox and uploads it under `key`. Best effort:
+ * a failed save only costs the next provision a rebuild.
+ */
+export async function saveArtifact(sandbox: SandboxHandle, store: ArtifactStore, key: string, sourceDir: string) {
+  const archivePath = scratchPath(sandbox, key);
+
+  try {
+    await runSandboxCommand(sandbox, 'cache-pack', {
+      cmd: 'sh',
+      args: ['-c', 'mkdir -p "$(dirname "$2")" && tar -czf "$2" -C "$1" .', 'pack', sourceDir, archivePath],
+    });
+
+    const body = await sandbox.readFile(archivePath);
+    if (!body) {
+      throw new Error(`artifact archive ${archivePath} missing after pack`);
+    }
+
+    await store.write(key, body);
+    log('sandbox.cache.saved', { sandboxId: sandbox.id, key });
+  } catch (error) {
+    log('sandbox.cache.save-error', { sandboxId: sandbox.id, key, error: describeError(error) }, 'warn');
+  }
+}
+
+function scratchPath(sandbox: SandboxHandle, key: string): string {
+  return `/tmp/sandbox-artifacts-${sandbox.id}/${key.split('/').pop()}`;
+}
+
+/**
+ * Streams `body` into the sandbox as numbered `<path>.part-NNNN` files, which sort
+ * in write order for `cat`. Only one part is buffered at a time.
+ */
+async function copyInParts(sandbox: SandboxHandle, body: Readable, path: string, limit: number): Promise<void> {
+  let chunks: Buffer[] = [];
+  let buffered = 0;
+  let size = 0;
+  let part = 0;
+
+  const flush = async () => {
+    part += 1;
+    await sandbox.writeFile(`${path}.part-${String(part).padStart(4, '0')}`, Buffer.concat(chunks));
+    chunks = [];
+    buffered = 0;
+  };
+
+  for await (const chunk of body) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > limit) {
+      body.destroy();
+      throw new Error(`artifact exceeds ${limit} bytes`);
+    }
+
+    chunks.push(buffer);
+    buffered += buffer.length;
+    if (buffered >= RESTORE_PART_BYTES) {
+      await flush();
+    }
+  }
+
+  if (buffered > 0 || part === 0) {
+    await flush();
+  }
+}
@@ -0,0 +1,389 @@
+import { readFileSync } from 'node:fs';
+import { planBuildCache, restoreArtifact, saveArtifact, type BuildCachePlan } from './artifactCache';
+import { describeError, log } from './log';
+import { runSandboxCommand, type SandboxCommandOptions } from './sandboxCommand';
+import type { SandboxHandle } from './sandboxProvider';
+
+const PIPELINE_FLAG_NAME = 'SANDBOX_BOOTSTRAP_PIPELINE';
+const DEFAULT_APP_PACKAGE = 'next-app';
+
+/**
+ * Run conditions evaluated against what the pipeline has done so far. A step
+ * with several conditions runs only when all of them hold.
+ */
+export type BootstrapCondition =
+  | 'always'
+  | 'build-cache-hit'
+  | 'build-cache-miss'
+  | 'deps-cache-hit'
+  | 'deps-cache-miss';
+
+/** Which generated environment a step starts from before its own `env` is applied. */
+export type BootstrapEnvProfile = 'build' | 'runtime';
+
+type BootstrapStepBase = {
+  name: string;
+  when?: BootstrapCondition | BootstrapCondition[];
+};
+
+/**
+ * A command run inside the sandbox. `args`, `cwd` and `env` values may use the
+ * placeholders `{workdir}`, `{port}`, `{package}`, `{repo}` and `{ref}`.
+ */
+export type BootstrapCommandStep = BootstrapStepBase & {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  envProfile?: BootstrapEnvProfile;
+  sudo?: boolean;
+  detached?: boolean;
+  /** Step budgets in milliseconds; see {@link SandboxCommandOptions}. */
+  timeoutMs?: number;
+  silenceTimeoutMs?: number;
+};
+
+/**
+ * Build cache hooks. `cache-plan` resolves the cache keys for the checkout,
+ * `cache-restore-build` and `cache-restore-deps` unpack artifacts into `dir`,
+ * and `cache-save` uploads the build (and dependencies, when they were not
+ * restored). Without an artifact store all of them are no-ops.
+ */
+export type BootstrapCacheStep = BootstrapStepBase & {
+  action: 'cache-plan' | 'cache-restore-build' | 'cache-restore-deps' | 'cache-save';
+  /** Artifact directory; defaults to the standalone output or the pnpm store. */
+  dir?: string;
+};
+
+export type BootstrapStep = BootstrapCommandStep | BootstrapCacheStep;
+
+export type BootstrapContext = {
+  workdir: string;
+  port: string;
+  repo: string;
+  ref: string;
+  buildEnv: Record<string, string>;
+  runtimeEnv: Record<string, string>;
+};
+
+type PipelineState = {
+  cache: BuildCachePlan | null;
+  buildRestored: boolean;
+  depsRestored: boolean;
+};
+
+/**
+ * The stock bootstrap for this repo's app: clone, install, build and start with
+ * pnpm, short-circuiting to the cached standalone server when one exists.
+ */
+export function defaultBootstrapPipeline(): BootstrapStep[] {
+  return [
+    { name: 'prepare-workdir', cmd: 'rm', args: ['-rf', '{workdir}'] },
+    { name: 'create-workdir', cmd: 'mkdir', args: ['-p', '{workdir}'] },
+    {
+      name: 'git-clone',
+      cmd: 'git',
+      args: ['clone', '--branch', '{ref}', '--single-branch', '--depth', '1', '{repo}', '{workdir}'],
+      timeoutMs: 5 * 60 * 1000,
+    },
+    { name: 'cache-plan', action: 'cache-plan' },
+    { name: 'cache-restore-build', action: 'cache-restore-build' },
+    {
+      name: 'standalone-start',
+      when: 'build-cache-hit',
+      cmd: 'node',
+      args: ['server.js'],
+      cwd: '{workdir}/.next/standalone',
+      envProfile: 'runtime',
+      // The standalone server binds to HOSTNAME, which otherwise is the sandbox's own hostname.
+      env: { HOSTNAME: '0.0.0.0' },
+      detached: true,
+    },
+    { name: 'corepack-enable', when: 'build-cache-miss', cmd: 'corepack', args: ['enable'], sudo: true },
+    { name: 'cache-restore-deps', when: 'build-cache-miss', action: 'cache-restore-deps' },
+    {
+      name: 'pnpm-install',
+      when: ['build-cache-miss', 'deps-cache-miss'],
+      cmd: 'pnpm',
+      args: ['install', '--no-frozen-lockfile'],
+      cwd: '{workdir}',
+      timeoutMs: 10 * 60 * 1000,
+    },
+    {
+      name: 'pnpm-install-offline',
+      when: ['build-cache-miss', 'deps-cache-hit'],
+      cmd: 'pnpm',
+      args: ['install', '--no-frozen-lockfile', '--prefer-offline'],
+      cwd: '{workdir}',
+      timeoutMs: 5 * 60 * 1000,
+    },
+    {
+      name: 'pnpm-build',
+      when: 'build-cache-miss',
+      cmd: 'pnpm',
+      args: ['--filter', '{package}', 'build'],
+      cwd: '{workdir}',
+      envProfile: 'build',
+    },
+    {
+      name: 'pnpm-start',
+      when: 'build-cache-miss',
+      cmd: 'pnpm',
+      args: ['--filter', '{package}', 'start'],
+      cwd: '{workdir}',
+      envProfile: 'runtime',
+      detached: true,
+    },
+    { name: 'cache-save', when: 'build-cache-miss', action: 'cache-save' },
+  ];
+}
+
+/**
+ * Reads the pipeline from `SANDBOX_BOOTSTRAP_PIPELINE`, which holds either a
+ * JSON array of steps or the path of a file containing one. Falls back to
+ * {@link defaultBootstrapPipeline}.
+ */
+export function loadBootstrapPipeline(): BootstrapStep[] {
+  const raw = process.env[PIPELINE_FLAG_NAME]?.trim();
+  if (!raw) {
+    return defaultBootstrapPipeline();
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.startsWith('[') ? raw : readFileSync(raw, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid ${PIPELINE_FLAG_NAME} value: ${describeError(error)}`);
+  }
+
+  return parsePipeline(parsed);
+}
+
+/** Runs every step whose conditions hold, in order. The first failing command aborts the pipeline. */
+export async function runBootstrapPipeline(sandbox: SandboxHandle, steps: BootstrapStep[], context: BootstrapContext) {
+  const state: PipelineState = { cache: null, buildRestored: false, depsRestored: false };
+
+  for (const step of steps) {
+    if (!conditionsHold(step, state)) {
+      log('sandbox.bootstrap.step-skipped', { sandboxId: sandbox.id, step: step.name, when: step.when });
+      continue;
+    }
+
+    if ('action' in step) {
+      await runCacheStep(sandbox, step, context, state);
+      continue;
+    }
+
+    const baseEnv = step.envProfile === 'build' ? context.buildEnv : step.envProfile === 'runtime' ? context.runtimeEnv : {};
+    const env = { ...baseEnv, ...expandEnv(step.env, context) };
+
+    await runSandboxCommand(sandbox, step.name, {
+      cmd: step.cmd,
+      args: step.args?.map(arg => expand(arg, context)),
+      cwd: step.cwd ? expand(step.cwd, context) : undefined,
+      env: Object.keys(env).length > 0 ? env : undefined,
+      sudo: step.sudo,
+      detached: step.detached,
+      timeoutMs: step.timeoutMs,
+      silenceTimeoutMs: step.silenceTimeoutMs,
+    });
+  }
+}
+
+async function runCacheStep(sandbox: SandboxHandle, step: BootstrapCacheStep, context: BootstrapContext, state: PipelineState) {
+  if (step.action === 'cache-plan') {
+    state.cache = await planBuildCache(sandbox, context.workdir).catch(error => {
+      log('sandbox.cache.plan-error', { sandboxId: sandbox.id, error: describeError(error) }, 'warn');
+      return null;
+    });
+    return;
+  }
+
+  const cache = state.cache;
+  if (!cache) {
+    return;
+  }
+
+  const standaloneDir = step.dir ? expand(step.dir, context) : `${context.workdir}/.next/standalone`;
+
+  if (step.action === 'cache-restore-build') {
+    state.buildRestored = cache.buildHit && (await restoreArtifact(sandbox, cache.store, cache.keys.build, standaloneDir));
+    return;
+  }
+
+  if (step.action === 'cache-restore-deps') {
+    state.depsRestored = cache.depsHit && (await restoreDependencies(sandbox, cache, step, context));
+    return;
+  }
+
+  await saveBuildArtifacts(sandbox, cache, context, standaloneDir, !state.depsRestored);
+}
+
+async function restoreDependencies(
+  sandbox: SandboxHandle,
+  cache: BuildCachePlan,
+  step: BootstrapCacheStep,
+  context: BootstrapContext,
+): Promise<boolean> {
+  try {
+    const storePath = step.dir ? expand(step.dir, context) : await pnpmStorePath(sandbox, context.workdir);
+    return await restoreArtifact(sandbox, cache.store, cache.keys.deps, storePath);
+  } catch (error) {
+    log('sandbox.cache.restore-error', { sandboxId: sandbox.id, key: cache.keys.deps, error: describeError(error) }, 'warn');
+    return false;
+  }
+}
+
+/**
+ * Stores the standalone server (with the static assets `next start` would
+ * otherwise serve from the checkout) and, when it was missing, the pnpm store.
+ */
+async function saveBuildArtifacts(
+  sandbox: SandboxHandle,
+  cache: BuildCachePlan,
+  context: BootstrapContext,
+  standaloneDir: string,
+  includeDeps: boolean,
+) {
+  try {
+    await runSandboxCommand(sandbox, 'cache-stage-standalone', {
+      cmd: 'sh',
+      args: [
+        '-c',
+        'cp -r .next/static "$1/.next/static" && if [ -d public ]; then cp -r public "$1/public"; fi',
+        'stage',
+        standaloneDir,
+      ],
+      cwd: context.workdir,
+    });
+    await saveArtifact(sandbox, cache.store, cache.keys.build, standaloneDir);
+
+    if (includeDeps) {
+      await saveArtifact(sandbox, cache.store, cache.keys.deps, await pnpmStorePath(sandbox, context.workdir));
+    }
+  } catch (error) {
+    log('sandbox.cache.save-error', { sandboxId: sandbox.id, error: describeError(error) }, 'warn');
+  }
+}
+
+async function pnpmStorePath(sandbox: SandboxHandle, workdir: string): Promise<string> {
+  const result = await runSandboxCommand(sandbox, 'pnpm-store-path', {
+    cmd: 'pnpm',
+    args: ['store', 'path'],
+    cwd: workdir,
+  });
+  const storePath = result.stdout.trim();
+  if (!storePath) {
+    throw new Error('pnpm store path returned no output');
+  }
+  return storePath;
+}
+
+function conditionsHold(step: BootstrapStep, state: PipelineState): boolean {
+  const conditions = step.when === undefined ? [] : Array.isArray(step.when) ? step.when : [step.when];
+
+  return conditions.every(condition => {
+    switch (condition) {
+      case 'always':
+        return true;
+      case 'build-cache-hit':
+        return state.buildRestored;
+      case 'build-cache-miss':
+        return !state.buildRestored;
+      case 'deps-cache-hit':
+        return state.depsRestored;
+      case 'deps-cache-miss':
+        return !state.depsRestored;
+    }
+  });
+}
+
+function expand(value: string, context: BootstrapContext): string {
+  const replacements: Record<string, string> = {
+    workdir: context.workdir,
+    port: context.port,
+    package: appPackage(),
+    repo: context.repo,
+    ref: context.ref,
+  };
+
+  return value.replace(/\{(\w+)\}/g, (match, name: string) => replacements[name] ?? match);
+}
+
+function expandEnv(env: Record<string, string> | undefined, context: BootstrapContext): Record<string, string> {
+  return Object.fromEntries(Object.entries(env ?? {}).map(([key, value]) => [key, expand(value, context)]));
+}
+
+function appPackage(): string {
+  return process.env.SANDBOX_APP_PACKAGE?.trim() || DEFAULT_APP_PACKAGE;
+}
+
+const CONDITIONS = new Set<BootstrapCondition>(['always', 'build-cache-hit', 'build-cache-miss', 'deps-cache-hit', 'deps-cache-miss']);
+const CACHE_ACTIONS = new Set<BootstrapCacheStep['action']>(['cache-plan', 'cache-restore-build', 'cache-restore-deps', 'cache-save']);
+
+function parsePipeline(value: unknown): BootstrapStep[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid ${PIPELINE_FLAG_NAME} value: expected a non-empty array of steps`);
+  }
+
+  return value.map((entry, index) => {
+    const invalid = (detail: string) => new Error(`Invalid ${PIPELINE_FLAG_NAME} step ${index}: ${detail}`);
+
+    if (typeof entry !== 'object' || entry === null) {
+      throw invalid('expected an object');
+    }
+
+    const step = entry as Record<string, unknown>;
+    if (typeof step.name !== 'string' || !step.name) {
+      throw invalid('"name" must be a non-empty string');
+    }
+
+    const when = step.when === undefined ? [] : Array.isArray(step.when) ? step.when : [step.when];
+    if (!when.every(condition => CONDITIONS.has(condition as BootstrapCondition))) {
+      throw invalid(`"when" must use ${[...CONDITIONS].join(', ')}`);
+    }
+
+    if ('action' in step) {
+      if (!CACHE_ACTIONS.has(step.action as BootstrapCacheStep['action'])) {
+        throw invalid(`"action" must be one of ${[...CACHE_ACTIONS].join(', ')}`);
+      }
+      if (step.dir !== undefined && typeof step.dir !== 'string') {
+        throw invalid('"dir" must be a string');
+      }
+      return step as BootstrapCacheStep;
+    }
+
+    if (typeof step.cmd !== 'string' || !step.cmd) {
+      throw invalid('"cmd" must be a non-empty string');
+    }
+    if (step.args !== undefined && !(Array.isArray(step.args) && step.args.every(arg => typeof arg === 'string'))) {
+      throw invalid('"args" must be an array of strings');
+    }
+    if (step.cwd !== undefined && typeof step.cwd !== 'string') {
+      throw invalid('"cwd" must be a string');
+    }
+    if (
+      step.env !== undefined &&
+      (typeof step.env !== 'object' || step.env === null || !Object.values(step.env).every(item => typeof item === 'string'))
+    ) {
+      throw invalid('"env" must map names to strings');
+    }
+    if (step.envProfile !== undefined && step.envProfile !== 'build' && step.envProfile !== 'runtime') {
+      throw invalid('"envProfile" must be "build" or "runtime"');
+    }
+    if (step.sudo !== undefined && typeof step.sudo !== 'boolean') {
+      throw invalid('"sudo" must be a boolean');
+    }
+    if (step.detached !== undefined && typeof step.detached !== 'boolean') {
+      throw invalid('"detached" must be a boolean');
+    }
+    for (const budget of ['timeoutMs', 'silenceTimeoutMs'] as const) {
+      const value = step[budget];
+      if (value !== undefined && !(typeof value === 'number' && Number.isInteger(value) && value >= 0)) {
+        throw invalid(`"${budget}" must be a non-negative integer`);
+      }
+    }
+
+    return step as BootstrapCommandStep;
+  });
+}
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SandboxRecord } from '../_lib/sandboxState';
+import { canaryPercent, canarySteps, canaryStepDue, startCanary } from './canary';
+
+const sandbox: SandboxRecord = {
+  id: 'sbx_new',
+  url: 'https://sbx-new.example.com',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'healthy',
+};
+
+afterEach(() => {
+  delete process.env.SANDBOX_CANARY_STEPS;
+  delete process.env.SANDBOX_CANARY_MIN_STEP_MS;
+});
+
+describe('canarySteps', () => {
+  it('is empty when unset, which promotes at once', () => {
+    expect(canarySteps()).toEqual([]);
+  });
+
+  it('appends the final 100% step when it is missing', () => {
+    process.env.SANDBOX_CANARY_STEPS = '5, 25';
+    expect(canarySteps()).toEqual([5, 25, 100]);
+  });
+
+  it('keeps an explicit 100% step', () => {
+    process.env.SANDBOX_CANARY_STEPS = '10,50,100';
+    expect(canarySteps()).toEqual([10, 50, 100]);
+  });
+
+  it.each(['25,5', '0,50', '50,150', 'five'])('rejects %s', value => {
+    process.env.SANDBOX_CANARY_STEPS = value;
+    expect(() => canarySteps()).toThrow(`Invalid SANDBOX_CANARY_STEPS value "${value}"`);
+  });
+});
+
+describe('canaryPercent', () => {
+  it('follows the step index and stays on the last step', () => {
+    const canary = startCanary(sandbox, undefined, [5, 25, 100]);
+    expect(canaryPercent(canary)).toBe(5);
+    expect(canaryPercent({ ...canary, stepIndex: 1 })).toBe(25);
+    expect(canaryPercent({ ...canary, stepIndex: 7 })).toBe(100);
+  });
+});
+
+describe('canaryStepDue', () => {
+  it('waits SANDBOX_CANARY_MIN_STEP_MS after the last advance', () => {
+    process.env.SANDBOX_CANARY_MIN_STEP_MS = '60000';
+    const canary = { ...startCanary(sandbox, undefined, [5, 100]), advancedAt: '2026-01-01T00:00:00.000Z' };
+    const advancedAt = Date.parse(canary.advancedAt);
+
+    expect(canaryStepDue(canary, advancedAt + 59_999)).toBe(false);
+    expect(canaryStepDue(canary, advancedAt + 60_000)).toBe(true);
+  });
+});
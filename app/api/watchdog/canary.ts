@@ -0,0 +1,47 @@
+import { intEnv } from '../_lib/env';
+import type { CanaryRecord, SandboxRecord } from '../_lib/sandboxState';
+
+const DEFAULT_MIN_STEP_MS = 4 * 60 * 1000; // just under one cron interval
+
+/**
+ * Traffic percentages a canary walks through, e.g. `SANDBOX_CANARY_STEPS=5,25,100`.
+ * Unset or empty disables canaries and fresh sandboxes are promoted at once.
+ */
+export function canarySteps(): number[] {
+  const raw = process.env.SANDBOX_CANARY_STEPS?.trim();
+  if (!raw) {
+    return [];
+  }
+
+  const steps = raw.split(',').map(part => Number.parseFloat(part.trim()));
+  const valid = steps.every((step, index) => Number.isFinite(step) && step > 0 && step <= 100 && (index === 0 || step > steps[index - 1]));
+  if (!valid) {
+    throw new Error(`Invalid SANDBOX_CANARY_STEPS value "${raw}"`);
+  }
+
+  return steps[steps.length - 1] === 100 ? steps : [...steps, 100];
+}
+
+export function canaryMinStepMs(): number {
+  return intEnv('SANDBOX_CANARY_MIN_STEP_MS', DEFAULT_MIN_STEP_MS);
+}
+
+export function startCanary(sandbox: SandboxRecord, replaces: SandboxRecord | undefined, steps: number[]): CanaryRecord {
+  const now = new Date().toISOString();
+  return {
+    sandbox,
+    replaces,
+    steps,
+    stepIndex: 0,
+    startedAt: now,
+    advancedAt: now,
+  };
+}
+
+export function canaryPercent(canary: CanaryRecord): number {
+  return canary.steps[Math.min(canary.stepIndex, canary.steps.length - 1)] ?? 100;
+}
+
+export function canaryStepDue(canary: CanaryRecord, now: number): boolean {
+  return now - new Date(canary.advancedAt).getTime() >= canaryMinStepMs();
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { DrainingSandboxRecord } from '../_lib/sandboxState';
+import { drainVerdict, type DrainPolicy } from './drain';
+
+const policy: DrainPolicy = { maxMs: 10 * 60_000, idleMs: 60_000 };
+const now = Date.parse('2026-01-01T01:00:00.000Z');
+
+const sandbox: DrainingSandboxRecord = {
+  id: 'sbx_old',
+  url: 'https://sbx-old.example.com',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  status: 'healthy',
+  drainStartedAt: new Date(now - 2 * 60_000).toISOString(),
+};
+
+describe('drainVerdict', () => {
+  it('keeps a busy sandbox draining', () => {
+    const activity = { inFlight: 2, lastActivityAt: new Date(now).toISOString(), checkedAt: new Date(now).toISOString() };
+
+    expect(drainVerdict(sandbox, activity, policy, now)).toEqual({ decommission: false });
+  });
+
+  it('stops a sandbox idle for longer than idleMs', () => {
+    const activity = { inFlight: 0, lastActivityAt: new Date(now - 90_000).toISOString(), checkedAt: new Date(now).toISOString() };
+
+    expect(drainVerdict(sandbox, activity, policy, now)).toEqual({ decommission: true, trigger: 'idle' });
+  });
+
+  it('stops any sandbox at the hard upper bound', () => {
+    const expired = { ...sandbox, drainStartedAt: new Date(now - policy.maxMs).toISOString() };
+
+    expect(drainVerdict(expired, null, policy, now)).toEqual({ decommission: true, trigger: 'drain-timeout' });
+  });
+
+  it('retries a failed stop on every tick', () => {
+    const stuck = { ...sandbox, stopFailedAt: new Date(now - 60_000).toISOString() };
+
+    expect(drainVerdict(stuck, null, policy, now)).toEqual({ decommission: true, trigger: 'stop-retry' });
+  });
+});
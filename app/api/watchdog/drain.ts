@@ -0,0 +1,84 @@
+import { intEnv } from '../_lib/env';
+import { signInternalRequest } from '../_lib/internalAuth';
+import type { DrainActivity, DrainingSandboxRecord } from '../_lib/sandboxState';
+import { log } from './log';
+
+const DRAIN_ENDPOINT = '/internal/drain';
+const DRAIN_REQUEST_TIMEOUT_MS = 5_000;
+const DEFAULT_DRAIN_MAX_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_DRAIN_IDLE_MS = 60 * 1000; // 1 minute
+
+export type DrainPolicy = {
+  /** Hard upper bound: a draining sandbox is stopped this long after it left the pool, busy or not. */
+  maxMs: number;
+  /** A sandbox with nothing in flight counts as idle once its last request is this old. */
+  idleMs: number;
+};
+
+export type DrainVerdict = { decommission: false } | { decommission: true; trigger: 'idle' | 'drain-timeout' | 'stop-retry' };
+
+export function drainPolicy(): DrainPolicy {
+  return {
+    maxMs: intEnv('SANDBOX_DRAIN_MAX_MS', DEFAULT_DRAIN_MAX_MS),
+    idleMs: intEnv('SANDBOX_DRAIN_IDLE_MS', DEFAULT_DRAIN_IDLE_MS),
+  };
+}
+
+/**
+ * Tells the sandbox to drain (`POST`) or to resume (`DELETE`) and returns the
+ * activity it reports. `null` when it cannot be reached or predates the drain
+ * endpoint; such sandboxes are only stopped at the hard upper bound.
+ */
+export async function requestSandboxDrain(
+  sandbox: DrainingSandboxRecord,
+  method: 'POST' | 'DELETE' = 'POST',
+): Promise<DrainActivity | null> {
+  const url = `${sandbox.url}${DRAIN_ENDPOINT}`;
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(await signInternalRequest(method, url)),
+        'user-agent': 'sandbox-watchdog/1.0',
+      },
+      signal: AbortSignal.timeout(DRAIN_REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      log('sandbox.drain.request-failed', { sandboxId: sandbox.id, method, status: response.status }, 'warn');
+      return null;
+    }
+
+    const payload = (await response.json()) as { inFlight?: unknown; lastActivityAt?: unknown };
+    if (typeof payload.inFlight !== 'number' || typeof payload.lastActivityAt !== 'string') {
+      log('sandbox.drain.invalid-report', { sandboxId: sandbox.id, method }, 'warn');
+      return null;
+    }
+
+    return { inFlight: payload.inFlight, lastActivityAt: payload.lastActivityAt, checkedAt: new Date().toISOString() };
+  } catch (error) {
+    log('sandbox.drain.request-error', { sandboxId: sandbox.id, method, error }, 'warn');
+    return null;
+  }
+}
+
+export function drainVerdict(
+  sandbox: DrainingSandboxRecord,
+  activity: DrainActivity | null,
+  policy: DrainPolicy,
+  now: number,
+): DrainVerdict {
+  if (sandbox.stopFailedAt) {
+    return { decommission: true, trigger: 'stop-retry' };
+  }
+
+  if (now - Date.parse(sandbox.drainStartedAt) >= policy.maxMs) {
+    return { decommission: true, trigger: 'drain-timeout' };
+  }
+
+  if (activity && activity.inFlight === 0 && now - Date.parse(activity.lastActivityAt) >= policy.idleMs) {
+    return { decommission: true, trigger: 'idle' };
+  }
+
+  return { decommission: false };
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { STATE_KEYS } from '../_lib/sandboxState';
+import { createMemoryStateStore } from '../_lib/stateStore';
+import { queryEvents, type WatchdogEvent, type WatchdogEventType } from './eventHistory';
+
+const store = createMemoryStateStore();
+
+function event(index: number, type: WatchdogEventType, sandboxIds: string[] = []): WatchdogEvent {
+  return { id: `evt_${index}`, type, at: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(), sandboxIds };
+}
+
+// Stored oldest first, as the watchdog appends them.
+const stored = [
+  event(0, 'provision.started', ['sbx_a']),
+  event(1, 'provision.succeeded', ['sbx_a']),
+  event(2, 'promotion', ['sbx_a']),
+  event(3, 'health.failure', ['sbx_a']),
+  event(4, 'provision.started', ['sbx_b']),
+  event(5, 'provision.failed', ['sbx_b']),
+];
+
+beforeEach(async () => {
+  await store.update([{ operation: 'upsert', key: STATE_KEYS.events, value: stored }]);
+});
+
+describe('queryEvents', () => {
+  it('returns the newest events first with a cursor to the next page', async () => {
+    const page = await queryEvents(store, { limit: 2 });
+
+    expect(page.events.map(item => item.id)).toEqual(['evt_5', 'evt_4']);
+    expect(page.nextCursor).toBe('evt_4');
+  });
+
+  it('walks every page exactly once', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await queryEvents(store, { limit: 4, cursor });
+      seen.push(...page.events.map(item => item.id));
+      if (!page.nextCursor) {
+        break;
+      }
+      cursor = page.nextCursor;
+    }
+
+    expect(seen).toEqual(['evt_5', 'evt_4', 'evt_3', 'evt_2', 'evt_1', 'evt_0']);
+  });
+
+  it('ends with a null cursor when the last page is exactly full', async () => {
+    const page = await queryEvents(store, { limit: 2, cursor: 'evt_2' });
+
+    expect(page.events.map(item => item.id)).toEqual(['evt_1', 'evt_0']);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('paginates within the filtered events', async () => {
+    const first = await queryEvents(store, { limit: 1, types: ['provision.started'] });
+    const second = await queryEvents(store, { limit: 1, types: ['provision.started'], cursor: first.nextCursor ?? undefined });
+
+    expect(first.events.map(item => item.id)).toEqual(['evt_4']);
+    expect(second.events.map(item => item.id)).toEqual(['evt_0']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('filters by sandbox and time range', async () => {
+    const page = await queryEvents(store, {
+      limit: 10,
+      sandboxId: 'sbx_a',
+      since: Date.parse(stored[1].at),
+      until: Date.parse(stored[2].at),
+    });
+
+    expect(page.events.map(item => item.id)).toEqual(['evt_2', 'evt_1']);
+  });
+
+  it('returns nothing for an unknown cursor', async () => {
+    expect(await queryEvents(store, { limit: 10, cursor: 'evt_missing' })).toEqual({ events: [], nextCursor: null });
+  });
+});
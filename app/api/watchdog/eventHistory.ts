@@ -0,0 +1,155 @@
+import { Readable } from 'node:stream';
+import { intEnv } from '../_lib/env';
+import { STATE_KEYS } from '../_lib/sandboxState';
+import type { StateStore, StateStoreOperation } from '../_lib/stateStore';
+import { getArtifactStore } from './artifactCache';
+import { describeError, log } from './log';
+
+const DEFAULT_HISTORY_SIZE = 200;
+/** An event is a few hundred bytes; Edge Config holds 8 KB on Hobby and 64 KB on Pro in total. */
+const EDGE_CONFIG_HISTORY_SIZE = 20;
+const ARCHIVE_PREFIX = 'sandbox-events';
+
+export const WATCHDOG_EVENT_TYPES = [
+  'provision.started',
+  'provision.failed',
+  'provision.succeeded',
+  'promotion',
+  'decommission',
+  'health.failure',
+  'forced-run',
+  'rollback',
+  'canary.aborted',
+] as const;
+
+export type WatchdogEventType = (typeof WATCHDOG_EVENT_TYPES)[number];
+
+export type WatchdogEvent = {
+  id: string;
+  type: WatchdogEventType;
+  at: string;
+  sandboxIds: string[];
+  reason?: string;
+  durationMs?: number;
+  region?: string;
+  detail?: Record<string, unknown>;
+};
+
+export type WatchdogEventInput = Omit<WatchdogEvent, 'id' | 'at' | 'sandboxIds'> & { sandboxIds?: string[] };
+
+export type EventQuery = {
+  types?: WatchdogEventType[];
+  sandboxId?: string;
+  since?: number;
+  until?: number;
+  /** Id of the last event of the previous page; results continue with older events. */
+  cursor?: string;
+  limit: number;
+};
+
+export type EventPage = { events: WatchdogEvent[]; nextCursor: string | null };
+
+type EventHistoryGlobal = typeof globalThis & {
+  __sandboxPendingEvents?: WatchdogEvent[];
+};
+
+/**
+ * Queues an event for the next state write. Events are written right after the
+ * state they describe, so a run that never persists leaves no history either.
+ */
+export function recordEvent(type: WatchdogEventType, input: Omit<WatchdogEventInput, 'type'> = {}) {
+  const event: WatchdogEvent = {
+    ...input,
+    id: crypto.randomUUID(),
+    type,
+    at: new Date().toISOString(),
+    sandboxIds: input.sandboxIds ?? [],
+  };
+  pendingEvents().push(event);
+}
+
+export function discardPendingEvents() {
+  const pending = pendingEvents();
+  if (pending.length > 0) {
+    log('sandbox.events.discarded', { count: pending.length }, 'warn');
+    pending.length = 0;
+  }
+}
+
+/**
+ * Builds the store operation that appends the queued events to the bounded
+ * history, or `null` when nothing is queued. Events pushed out of the window
+ * are archived when `SANDBOX_EVENT_ARCHIVE` is enabled.
+ */
+export async function takePendingEventsOperation(store: StateStore): Promise<StateStoreOperation | null> {
+  const pending = pendingEvents().splice(0);
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const existing = (await store.get<WatchdogEvent[]>(STATE_KEYS.events)) ?? [];
+  const combined = [...existing, ...pending];
+  const fallback = store.kind === 'edge-config' ? EDGE_CONFIG_HISTORY_SIZE : DEFAULT_HISTORY_SIZE;
+  const limit = intEnv('SANDBOX_EVENT_HISTORY_SIZE', fallback, { min: 1 });
+  const evicted = combined.slice(0, Math.max(0, combined.length - limit));
+
+  if (evicted.length > 0 && archiveEnabled()) {
+    await archiveEvents(evicted);
+  }
+
+  return { operation: 'upsert', key: STATE_KEYS.events, value: combined.slice(-limit) };
+}
+
+/** Newest-first page of the stored history. */
+export async function queryEvents(store: StateStore, query: EventQuery): Promise<EventPage> {
+  const stored = (await store.get<WatchdogEvent[]>(STATE_KEYS.events)) ?? [];
+  let events = [...stored].reverse();
+
+  if (query.cursor) {
+    const index = events.findIndex(event => event.id === query.cursor);
+    events = index >= 0 ? events.slice(index + 1) : [];
+  }
+
+  const matching = events.filter(event => {
+    const at = Date.parse(event.at);
+    return (
+      (!query.types || query.types.includes(event.type)) &&
+      (!query.sandboxId || event.sandboxIds.includes(query.sandboxId)) &&
+      (query.since === undefined || at >= query.since) &&
+      (query.until === undefined || at <= query.until)
+    );
+  });
+
+  const page = matching.slice(0, query.limit);
+  return {
+    events: page,
+    nextCursor: matching.length > query.limit ? page[page.length - 1].id : null,
+  };
+}
+
+async function archiveEvents(events: WatchdogEvent[]) {
+  const store = getArtifactStore();
+  if (!store) {
+    log('sandbox.events.archive-skipped', { count: events.length, reason: 'no artifact store configured' }, 'warn');
+    return;
+  }
+
+  const key = `${ARCHIVE_PREFIX}/${events[0].at.replace(/[:.]/g, '-')}-${events[events.length - 1].id}.jsonl`;
+  try {
+    await store.write(key, Readable.from([events.map(event => JSON.stringify(event)).join('\n') + '\n']), 'application/x-ndjson');
+    log('sandbox.events.archived', { key, count: events.length });
+  } catch (error) {
+    // Archival is best effort; the events are still dropped so the history stays bounded.
+    log('sandbox.events.archive-error', { key, count: events.length, error: describeError(error) }, 'warn');
+  }
+}
+
+function pendingEvents(): WatchdogEvent[] {
+  const scope = globalThis as EventHistoryGlobal;
+  return (scope.__sandboxPendingEvents ??= []);
+}
+
+function archiveEnabled(): boolean {
+  const value = process.env.SANDBOX_EVENT_ARCHIVE?.trim().toLowerCase();
+  return Boolean(value) && value !== 'false' && value !== '0' && value !== 'off';
+}
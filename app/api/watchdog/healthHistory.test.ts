@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthOutcome, HealthSample, SandboxState } from '../_lib/sandboxState';
+import { classifyHealth, pruneHealthHistory, recordHealthSample, rotationVerdict, type HealthPolicy } from './healthHistory';
+
+const policy: HealthPolicy = {
+  historySize: 10,
+  failureStreak: 3,
+  failureRatio: 0.5,
+  ratioMinSamples: 6,
+  degradedLatencyMs: 3_000,
+};
+
+function samples(...outcomes: HealthOutcome[]): HealthSample[] {
+  return outcomes.map((outcome, index) => ({
+    at: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString(),
+    outcome,
+    latencyMs: 100,
+    ...(outcome === 'unhealthy' ? { reason: `failure ${index}` } : {}),
+  }));
+}
+
+describe('rotationVerdict', () => {
+  it('keeps a sandbox after a single failure', () => {
+    expect(rotationVerdict(samples('healthy', 'healthy', 'unhealthy'), policy)).toEqual({ rotate: false });
+  });
+
+  it('rotates after failureStreak consecutive failures and names the last reason', () => {
+    expect(rotationVerdict(samples('healthy', 'unhealthy', 'unhealthy', 'unhealthy'), policy)).toEqual({
+      rotate: true,
+      reason: '3 consecutive failures (last: failure 3)',
+    });
+  });
+
+  it('does not count a streak broken by a passing check', () => {
+    expect(rotationVerdict(samples('unhealthy', 'unhealthy', 'healthy', 'unhealthy', 'unhealthy'), policy)).toEqual({ rotate: false });
+  });
+
+  it('rotates once the failure ratio is reached with enough samples', () => {
+    expect(rotationVerdict(samples('unhealthy', 'healthy', 'unhealthy', 'healthy', 'unhealthy', 'healthy'), policy)).toEqual({
+      rotate: true,
+      reason: '3/6 checks failed',
+    });
+  });
+
+  it('ignores the failure ratio below ratioMinSamples', () => {
+    expect(rotationVerdict(samples('unhealthy', 'healthy', 'unhealthy', 'healthy', 'unhealthy'), policy)).toEqual({ rotate: false });
+  });
+
+  it('counts degraded samples as passing', () => {
+    expect(rotationVerdict(samples('degraded', 'degraded', 'degraded', 'degraded', 'degraded', 'degraded'), policy)).toEqual({
+      rotate: false,
+    });
+  });
+});
+
+describe('classifyHealth', () => {
+  it('separates failing, slow and healthy checks', () => {
+    expect(classifyHealth(false, 10, policy)).toBe('unhealthy');
+    expect(classifyHealth(true, 3_001, policy)).toBe('degraded');
+    expect(classifyHealth(true, 3_000, policy)).toBe('healthy');
+  });
+});
+
+describe('recordHealthSample', () => {
+  it('trims the history to historySize, keeping the newest samples', () => {
+    const state: SandboxState = { draining: [] };
+    const all = samples(...Array.from({ length: 12 }, () => 'healthy' as const));
+    for (const sample of all) {
+      recordHealthSample(state, 'sbx_1', sample, policy);
+    }
+
+    expect(state.healthHistory?.sbx_1).toEqual(all.slice(-10));
+  });
+});
+
+describe('pruneHealthHistory', () => {
+  it('drops the history of untracked sandboxes', () => {
+    const state: SandboxState = { draining: [], healthHistory: { sbx_1: samples('healthy'), sbx_2: samples('unhealthy') } };
+    pruneHealthHistory(state, ['sbx_2']);
+
+    expect(Object.keys(state.healthHistory ?? {})).toEqual(['sbx_2']);
+  });
+});
@@ -0,0 +1,90 @@
+import { intEnv } from '../_lib/env';
+import type { HealthOutcome, HealthSample, SandboxState } from '../_lib/sandboxState';
+
+export type HealthPolicy = {
+  /** Samples kept per sandbox. */
+  historySize: number;
+  /** Consecutive unhealthy samples that trigger a rotation. */
+  failureStreak: number;
+  /** Share of unhealthy samples in the history that triggers a rotation... */
+  failureRatio: number;
+  /** ...once at least this many samples have been collected. */
+  ratioMinSamples: number;
+  /** Passing checks slower than this are recorded as degraded. */
+  degradedLatencyMs: number;
+};
+
+export type RotationVerdict = { rotate: false } | { rotate: true; reason: string };
+
+export function healthPolicy(): HealthPolicy {
+  // The history is part of the state record, so it is kept short enough for Edge Config.
+  const historySize = intEnv('SANDBOX_HEALTH_HISTORY_SIZE', 10, { min: 1 });
+
+  return {
+    historySize,
+    failureStreak: Math.min(historySize, intEnv('SANDBOX_HEALTH_FAILURE_STREAK', 3, { min: 1 })),
+    failureRatio: parseRatio('SANDBOX_HEALTH_FAILURE_RATIO', 0.5),
+    ratioMinSamples: Math.min(historySize, intEnv('SANDBOX_HEALTH_RATIO_MIN_SAMPLES', 6, { min: 1 })),
+    degradedLatencyMs: intEnv('SANDBOX_HEALTH_DEGRADED_MS', 3_000, { min: 1 }),
+  };
+}
+
+export function classifyHealth(healthy: boolean, latencyMs: number, policy: HealthPolicy): HealthOutcome {
+  if (!healthy) {
+    return 'unhealthy';
+  }
+  return latencyMs > policy.degradedLatencyMs ? 'degraded' : 'healthy';
+}
+
+/** Appends a sample to the sandbox's history, trimming it to `historySize`. */
+export function recordHealthSample(state: SandboxState, sandboxId: string, sample: HealthSample, policy: HealthPolicy): HealthSample[] {
+  const history = [...(state.healthHistory?.[sandboxId] ?? []), sample].slice(-policy.historySize);
+  state.healthHistory = { ...state.healthHistory, [sandboxId]: history };
+  return history;
+}
+
+/**
+ * A single failed check is not enough to rotate: the sandbox must fail
+ * `failureStreak` checks in a row, or fail too often across the window.
+ * Degraded samples count as passing.
+ */
+export function rotationVerdict(history: HealthSample[], policy: HealthPolicy): RotationVerdict {
+  const streak = history.slice(-policy.failureStreak);
+  if (streak.length >= policy.failureStreak && streak.every(sample => sample.outcome === 'unhealthy')) {
+    const reason = streak[streak.length - 1].reason ?? 'unknown';
+    return { rotate: true, reason: `${policy.failureStreak} consecutive failures (last: ${reason})` };
+  }
+
+  if (history.length >= policy.ratioMinSamples) {
+    const failures = history.filter(sample => sample.outcome === 'unhealthy').length;
+    const ratio = failures / history.length;
+    if (ratio >= policy.failureRatio) {
+      return { rotate: true, reason: `${failures}/${history.length} checks failed` };
+    }
+  }
+
+  return { rotate: false };
+}
+
+/** Drops the history of sandboxes that are no longer tracked. */
+export function pruneHealthHistory(state: SandboxState, trackedIds: Iterable<string>) {
+  if (!state.healthHistory) {
+    return;
+  }
+
+  const tracked = new Set(trackedIds);
+  state.healthHistory = Object.fromEntries(Object.entries(state.healthHistory).filter(([sandboxId]) => tracked.has(sandboxId)));
+}
+
+function parseRatio(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed > 1) {
+    throw new Error(`Invalid ${name} value "${value}"`);
+  }
+  return parsed;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateHealth, type HealthThresholds } from './healthScore';
+
+const MB = 1024 * 1024;
+
+const thresholds: HealthThresholds = {
+  maxRssBytes: 1_536 * MB,
+  maxEventLoopLagMs: 1_000,
+  minDiskFreeBytes: 512 * MB,
+  maxServerLatencyMs: 5_000,
+  minScore: 100,
+};
+
+const passingChecks = {
+  memory: { rssBytes: 200 * MB, heapUsedBytes: 50 * MB, heapTotalBytes: 80 * MB },
+  eventLoop: { lagP99Ms: 20, lagMaxMs: 40 },
+  disk: { path: '/app', freeBytes: 4_096 * MB, totalBytes: 8_192 * MB },
+  server: { status: 200, latencyMs: 120 },
+  app: {},
+};
+
+describe('evaluateHealth', () => {
+  it('passes a report within every threshold', () => {
+    const evaluation = evaluateHealth({ status: 'ok', checks: passingChecks }, thresholds);
+
+    expect(evaluation.score).toBe(100);
+    expect(evaluation.passed).toBe(true);
+    expect(evaluation.verdicts.map(verdict => verdict.check)).toEqual(['memory', 'event-loop', 'disk', 'server']);
+  });
+
+  it('fails each sub-check past its threshold', () => {
+    const evaluation = evaluateHealth(
+      {
+        checks: {
+          memory: { rssBytes: 2_000 * MB, heapUsedBytes: 0, heapTotalBytes: 0 },
+          eventLoop: { lagP99Ms: 1_500, lagMaxMs: 2_000 },
+          disk: { path: '/app', freeBytes: 100 * MB, totalBytes: 8_192 * MB },
+          server: { status: 502, latencyMs: 10 },
+          app: {},
+        },
+      },
+      thresholds,
+    );
+
+    expect(evaluation.score).toBe(0);
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.verdicts.every(verdict => !verdict.passed)).toBe(true);
+  });
+
+  it('fails a slow server even with a good status', () => {
+    const evaluation = evaluateHealth({ checks: { ...passingChecks, server: { status: 200, latencyMs: 6_000 } } }, thresholds);
+
+    expect(evaluation.verdicts.find(verdict => verdict.check === 'server')).toMatchObject({ passed: false });
+  });
+
+  it('counts a probe error as a failed sub-check', () => {
+    const evaluation = evaluateHealth({ checks: { ...passingChecks, disk: { error: 'EACCES' } } }, thresholds);
+
+    expect(evaluation.score).toBe(75);
+    expect(evaluation.verdicts.find(verdict => verdict.check === 'disk')).toEqual({
+      check: 'disk',
+      passed: false,
+      detail: 'probe-error: EACCES',
+    });
+  });
+
+  it('scores app checks alongside the probes', () => {
+    const evaluation = evaluateHealth(
+      { checks: { ...passingChecks, app: { database: { ok: false, detail: 'timeout' }, cache: { ok: true } } } },
+      thresholds,
+    );
+
+    expect(evaluation.score).toBe(83);
+    expect(evaluation.verdicts).toContainEqual({ check: 'app:database', passed: false, detail: 'timeout' });
+    expect(evaluation.verdicts).toContainEqual({ check: 'app:cache', passed: true, detail: 'ok' });
+  });
+
+  it('skips probes missing from the report, such as the server outside a sandbox', () => {
+    const { server: _server, ...withoutServer } = passingChecks;
+    const evaluation = evaluateHealth({ checks: withoutServer }, thresholds);
+
+    expect(evaluation.verdicts.map(verdict => verdict.check)).not.toContain('server');
+    expect(evaluation.passed).toBe(true);
+  });
+
+  it('fails a payload without checks, even with a lowered minScore', () => {
+    const evaluation = evaluateHealth({ status: 'ok', service: 'next-app' }, { ...thresholds, minScore: 0 });
+
+    expect(evaluation).toEqual({
+      score: 0,
+      passed: false,
+      verdicts: [{ check: 'checks-missing', passed: false, detail: 'no checks in the health payload' }],
+    });
+  });
+
+  it('passes when the score meets a lowered minScore', () => {
+    const evaluation = evaluateHealth({ checks: { ...passingChecks, disk: { error: 'EACCES' } } }, { ...thresholds, minScore: 75 });
+
+    expect(evaluation.passed).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { intEnv } from '../_lib/env';
+import type { HealthReport } from '../_lib/healthChecks';
+
+const MB = 1024 * 1024;
+
+export type HealthThresholds = {
+  maxRssBytes: number;
+  maxEventLoopLagMs: number;
+  minDiskFreeBytes: number;
+  maxServerLatencyMs: number;
+  /** Percentage of sub-checks that must pass for the sandbox to count as healthy. */
+  minScore: number;
+};
+
+export type HealthCheckVerdict = { check: string; passed: boolean; detail: string };
+
+export type HealthEvaluation = {
+  score: number;
+  passed: boolean;
+  verdicts: HealthCheckVerdict[];
+};
+
+export function healthThresholds(): HealthThresholds {
+  return {
+    maxRssBytes: intEnv('SANDBOX_HEALTH_MAX_RSS_MB', 1536) * MB,
+    maxEventLoopLagMs: intEnv('SANDBOX_HEALTH_MAX_LOOP_LAG_MS', 1000),
+    minDiskFreeBytes: intEnv('SANDBOX_HEALTH_MIN_DISK_FREE_MB', 512) * MB,
+    maxServerLatencyMs: intEnv('SANDBOX_HEALTH_MAX_SERVER_LATENCY_MS', 5000),
+    minScore: Math.min(100, intEnv('SANDBOX_HEALTH_MIN_SCORE', 100)),
+  };
+}
+
+/**
+ * Scores the sub-checks of a health payload. The watchdog signs its probe, so a
+ * payload without `checks` means the signature was not honoured or the build is
+ * broken; it scores 0 with a `checks-missing` verdict instead of passing unseen.
+ */
+export function evaluateHealth(payload: Record<string, unknown>, thresholds: HealthThresholds): HealthEvaluation {
+  const report = payload.checks as Partial<HealthReport> | undefined;
+  if (!report || typeof report !== 'object') {
+    return { score: 0, passed: false, verdicts: [{ check: 'checks-missing', passed: false, detail: 'no checks in the health payload' }] };
+  }
+
+  const verdicts: HealthCheckVerdict[] = [];
+  const judge = <T extends object>(
+    check: string,
+    probe: T | { error: string } | undefined,
+    evaluate: (observed: T) => HealthCheckVerdict,
+  ) => {
+    if (!probe) {
+      return;
+    }
+    verdicts.push('error' in probe ? { check, passed: false, detail: `probe-error: ${probe.error}` } : evaluate(probe));
+  };
+
+  judge('memory', report.memory, ({ rssBytes }) => ({
+    check: 'memory',
+    passed: rssBytes <= thresholds.maxRssBytes,
+    detail: `rss ${Math.round(rssBytes / MB)}MB (max ${Math.round(thresholds.maxRssBytes / MB)}MB)`,
+  }));
+
+  judge('event-loop', report.eventLoop, ({ lagP99Ms }) => ({
+    check: 'event-loop',
+    passed: lagP99Ms <= thresholds.maxEventLoopLagMs,
+    detail: `p99 lag ${lagP99Ms}ms (max ${thresholds.maxEventLoopLagMs}ms)`,
+  }));
+
+  judge('disk', report.disk, ({ freeBytes }) => ({
+    check: 'disk',
+    passed: freeBytes >= thresholds.minDiskFreeBytes,
+    detail: `free ${Math.round(freeBytes / MB)}MB (min ${Math.round(thresholds.minDiskFreeBytes / MB)}MB)`,
+  }));
+
+  judge('server', report.server, ({ status, latencyMs }) => ({
+    check: 'server',
+    passed: status < 500 && latencyMs <= thresholds.maxServerLatencyMs,
+    detail: `status ${status} in ${latencyMs}ms (max ${thresholds.maxServerLatencyMs}ms)`,
+  }));
+
+  for (const [name, outcome] of Object.entries(report.app ?? {})) {
+    verdicts.push({ check: `app:${name}`, passed: outcome.ok, detail: outcome.detail ?? (outcome.ok ? 'ok' : 'failed') });
+  }
+
+  const score = verdicts.length === 0 ? 100 : Math.round((verdicts.filter(verdict => verdict.passed).length / verdicts.length) * 100);
+  return { score, passed: score >= thresholds.minScore, verdicts };
+}
@@ -0,0 +1,73 @@
+import { authorizeAdminRequest } from '../../_lib/adminAuth';
+import { monitoringRoutesDisabled } from '../../_lib/monitoringToggle';
+import { getStateStore } from '../../_lib/stateStore';
+import { queryEvents, WATCHDOG_EVENT_TYPES, type EventQuery, type WatchdogEventType } from '../eventHistory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Newest-first watchdog events. Filters: `type` (comma-separated), `sandboxId`,
+ * `since`/`until` (ISO timestamps), `limit`; pass the returned `nextCursor` as
+ * `cursor` for the next page.
+ */
+export async function GET(request: Request) {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rejection = await authorizeAdminRequest(request, 'status');
+  if (rejection) {
+    return rejection;
+  }
+
+  const parsed = parseQuery(new URL(request.url).searchParams);
+  if ('error' in parsed) {
+    return Response.json({ status: 'invalid-query', detail: parsed.error }, { status: 400 });
+  }
+
+  return Response.json(await queryEvents(getStateStore(), parsed));
+}
+
+function parseQuery(params: URLSearchParams): EventQuery | { error: string } {
+  const query: EventQuery = { limit: DEFAULT_PAGE_SIZE };
+
+  const types = params.get('type');
+  if (types) {
+    const requested = types.split(',').map(type => type.trim()).filter(Boolean);
+    const unknown = requested.filter(type => !WATCHDOG_EVENT_TYPES.includes(type as WatchdogEventType));
+    if (unknown.length > 0) {
+      return { error: `unknown event type(s): ${unknown.join(', ')}` };
+    }
+    query.types = requested as WatchdogEventType[];
+  }
+
+  for (const bound of ['since', 'until'] as const) {
+    const value = params.get(bound);
+    if (value) {
+      const timestamp = Date.parse(value);
+      if (Number.isNaN(timestamp)) {
+        return { error: `"${bound}" must be an ISO timestamp` };
+      }
+      query[bound] = timestamp;
+    }
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const parsed = Number.parseInt(limit, 10);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      return { error: '"limit" must be a positive integer' };
+    }
+    query.limit = Math.min(parsed, MAX_PAGE_SIZE);
+  }
+
+  query.sandboxId = params.get('sandboxId') ?? undefined;
+  query.cursor = params.get('cursor') ?? undefined;
+
+  return query;
+}
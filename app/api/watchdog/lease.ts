@@ -0,0 +1,267 @@
+import { BlobPreconditionFailedError, get, put } from '@vercel/blob';
+import { intEnv } from '../_lib/env';
+import { STATE_KEYS } from '../_lib/sandboxState';
+import type { StateStore, StateStoreKind } from '../_lib/stateStore';
+import { describeError, log } from './log';
+
+const DEFAULT_LEASE_TTL_MS = 2 * 60 * 1000; // 2 minutes
+const LEASE_BLOB_PATH = 'sandbox-watchdog/lease.json';
+const ACQUIRE_ATTEMPTS = 3;
+
+export type WatchdogLease = {
+  holderId: string;
+  operation: string;
+  /** When the holder moved on to the current operation; lets readers judge its progress. */
+  operationStartedAt: string;
+  acquiredAt: string;
+  renewedAt: string;
+  expiresAt: string;
+};
+
+export type LeaseAcquisition =
+  | { acquired: true; lease: LeaseHandle }
+  | { acquired: false; current: WatchdogLease };
+
+export type LeaseHandle = {
+  holderId: string;
+  /** Records the step the holder is on; renews the lease as a side effect. */
+  setOperation(operation: string): Promise<void>;
+  /** Throws `LeaseLostError` once another holder has taken over the lease. */
+  assertHeld(): void;
+  release(): Promise<void>;
+};
+
+/** `version` identifies what is stored (`null`: nothing), for the next conditional write. */
+type LeaseRecord = { lease: WatchdogLease | null; version: string | null };
+
+type LeaseStore = {
+  read(): Promise<LeaseRecord>;
+  /** Stores `next` only if the stored version is still `expected`; the new version, or `null` on a conflict. */
+  swap(next: WatchdogLease | null, expected: string | null): Promise<string | null>;
+};
+
+type LeaseQueueGlobal = typeof globalThis & {
+  __sandboxLeaseQueue?: Promise<unknown>;
+};
+
+export class LeaseLostError extends Error {
+  constructor(
+    readonly holderId: string,
+    readonly currentHolderId: string | null,
+  ) {
+    super(`watchdog lease lost by ${holderId} (now held by ${currentHolderId ?? 'nobody'})`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Throws unless the lease has somewhere to live. The watchdog checks this when
+ * it loads, so a missing Blob token fails loudly once instead of on every tick.
+ */
+export function assertLeaseStoreConfigured(kind: StateStoreKind) {
+  if (kind === 'edge-config' && !process.env.BLOB_READ_WRITE_TOKEN) {
+    throw new Error(
+      'Missing required environment variable BLOB_READ_WRITE_TOKEN: with the edge-config state store the watchdog lease lives in Vercel Blob',
+    );
+  }
+}
+
+/**
+ * Takes the watchdog lease unless another holder has a live one. Every write is
+ * conditional on the version last read, so of two ticks racing for the lease
+ * exactly one wins and the other backs off.
+ */
+export async function acquireLease(store: StateStore, holderId: string, operation: string): Promise<LeaseAcquisition> {
+  const ttlMs = intEnv('WATCHDOG_LEASE_TTL_MS', DEFAULT_LEASE_TTL_MS, { min: 1 });
+  const leases = leaseStoreFor(store);
+
+  for (let attempt = 1; ; attempt += 1) {
+    const current = await leases.read();
+    if (current.lease && isLive(current.lease) && current.lease.holderId !== holderId) {
+      return { acquired: false, current: current.lease };
+    }
+
+    const now = new Date();
+    const lease: WatchdogLease = {
+      holderId,
+      operation,
+      operationStartedAt: now.toISOString(),
+      acquiredAt: now.toISOString(),
+      renewedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    };
+
+    const version = await leases.swap(lease, current.version);
+    if (version !== null) {
+      log('watchdog.lease.acquired', { holderId, operation, expiresAt: lease.expiresAt });
+      return { acquired: true, lease: createLeaseHandle(leases, lease, version, ttlMs) };
+    }
+
+    // Another writer got in between the read and the write; look again at what it left.
+    if (attempt === ACQUIRE_ATTEMPTS) {
+      throw new Error(`watchdog lease still contended after ${ACQUIRE_ATTEMPTS} attempts`);
+    }
+  }
+}
+
+function createLeaseHandle(leases: LeaseStore, initial: WatchdogLease, initialVersion: string, ttlMs: number): LeaseHandle {
+  let lease = initial;
+  let version = initialVersion;
+  let lostTo: string | null | undefined;
+  // The heartbeat and setOperation both renew; each write has to start from the version the last one left.
+  let pending: Promise<void> = Promise.resolve();
+
+  const write = async (operation: string) => {
+    if (lostTo !== undefined) {
+      return;
+    }
+
+    const now = new Date();
+    const next: WatchdogLease = {
+      ...lease,
+      operation,
+      operationStartedAt: operation === lease.operation ? lease.operationStartedAt : now.toISOString(),
+      renewedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+    };
+
+    const written = await leases.swap(next, version);
+    if (written === null) {
+      const current = await leases.read();
+      lostTo = current.lease?.holderId ?? null;
+      log('watchdog.lease.lost', { holderId: lease.holderId, currentHolderId: lostTo }, 'error');
+      return;
+    }
+
+    lease = next;
+    version = written;
+  };
+
+  const renew = (operation: string) => {
+    const run = pending.then(() => write(operation));
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const assertHeld = () => {
+    if (lostTo !== undefined) {
+      throw new LeaseLostError(lease.holderId, lostTo);
+    }
+  };
+
+  // Renew at a third of the TTL so one slow store write cannot let the lease lapse.
+  const heartbeat = setInterval(() => {
+    renew(lease.operation).catch(error => {
+      log('watchdog.lease.renew-error', { holderId: lease.holderId, error: describeError(error) }, 'warn');
+    });
+  }, Math.max(1_000, Math.floor(ttlMs / 3)));
+  heartbeat.unref?.();
+
+  return {
+    holderId: lease.holderId,
+    async setOperation(operation) {
+      await renew(operation);
+      assertHeld();
+    },
+    assertHeld,
+    async release() {
+      clearInterval(heartbeat);
+      await pending;
+      if (lostTo !== undefined) {
+        return;
+      }
+
+      // A conflict here means the lease lapsed and was taken over; it is no longer ours to clear.
+      await leases.swap(null, version);
+      log('watchdog.lease.released', { holderId: lease.holderId });
+    },
+  };
+}
+
+/**
+ * Edge Config has no conditional writes, so with it the lease lives in Vercel Blob
+ * (ETag `ifMatch`) and is mirrored into the state store for readers such as the
+ * router. The file and memory stores are single-process and are serialized here.
+ */
+function leaseStoreFor(store: StateStore): LeaseStore {
+  return store.kind === 'edge-config' ? createBlobLeaseStore(store) : createLocalLeaseStore(store);
+}
+
+function createLocalLeaseStore(store: StateStore): LeaseStore {
+  const versionOf = (lease: WatchdogLease | null | undefined) => (lease ? JSON.stringify(lease) : null);
+
+  return {
+    async read() {
+      const lease = (await store.get<WatchdogLease>(STATE_KEYS.lease)) ?? null;
+      return { lease, version: versionOf(lease) };
+    },
+    swap(next, expected) {
+      return serialized(async () => {
+        if (versionOf(await store.get<WatchdogLease>(STATE_KEYS.lease)) !== expected) {
+          return null;
+        }
+        await store.update([
+          next ? { operation: 'upsert', key: STATE_KEYS.lease, value: next } : { operation: 'delete', key: STATE_KEYS.lease },
+        ]);
+        return versionOf(next);
+      });
+    },
+  };
+}
+
+function createBlobLeaseStore(mirror: StateStore): LeaseStore {
+  const read = async (): Promise<LeaseRecord> => {
+    const result = await get(LEASE_BLOB_PATH, { access: 'private', useCache: false });
+    if (!result || result.statusCode !== 200) {
+      return { lease: null, version: null };
+    }
+    const { lease } = JSON.parse(await new Response(result.stream).text()) as { lease: WatchdogLease | null };
+    return { lease, version: result.blob.etag };
+  };
+
+  return {
+    read,
+    async swap(next, expected) {
+      let version: string;
+      try {
+        const written = await put(LEASE_BLOB_PATH, JSON.stringify({ lease: next }), {
+          access: 'private',
+          addRandomSuffix: false,
+          contentType: 'application/json',
+          ...(expected ? { ifMatch: expected } : { allowOverwrite: false }),
+        });
+        version = written.etag;
+      } catch (error) {
+        if (error instanceof BlobPreconditionFailedError) {
+          return null;
+        }
+        // A first write that lost the race fails as "already exists", which has no error class of its own.
+        if (!expected && (await read()).version !== null) {
+          return null;
+        }
+        throw error;
+      }
+
+      await mirror
+        .update([
+          next ? { operation: 'upsert', key: STATE_KEYS.lease, value: next } : { operation: 'delete', key: STATE_KEYS.lease },
+        ])
+        .catch(error => {
+          log('watchdog.lease.mirror-error', { error: describeError(error) }, 'warn');
+        });
+      return version;
+    },
+  };
+}
+
+/** Runs `task` after every earlier one in this process, so a read and the write that depends on it are not interleaved. */
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const scope = globalThis as LeaseQueueGlobal;
+  const run = (scope.__sandboxLeaseQueue ?? Promise.resolve()).then(task);
+  scope.__sandboxLeaseQueue = run.catch(() => undefined);
+  return run;
+}
+
+function isLive(lease: WatchdogLease): boolean {
+  return new Date(lease.expiresAt).getTime() > Date.now();
+}
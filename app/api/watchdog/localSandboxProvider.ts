@@ -0,0 +1,213 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createReadStream } from 'node:fs';
+import { access, mkdir, rm, writeFile } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { intEnv } from '../_lib/env';
+import { log } from './log';
+import type { SandboxCommandRequest, SandboxCommandResult, SandboxHandle, SandboxProvider } from './sandboxProvider';
+
+const DEFAULT_BASE_PORT = 4100;
+const MAX_PORT_PROBES = 100;
+const STOP_GRACE_MS = 10_000;
+
+type LocalSandbox = {
+  id: string;
+  port: number;
+  workdir: string;
+  region: string;
+  createdAt: number;
+  status: 'running' | 'stopping';
+  processes: Set<ChildProcess>;
+  expiryTimer?: NodeJS.Timeout;
+};
+
+type LocalSandboxGlobal = typeof globalThis & {
+  __localSandboxes?: Map<string, LocalSandbox>;
+};
+
+/**
+ * Runs each "sandbox" as a set of child processes on this machine. Every sandbox
+ * gets its own workdir under `LOCAL_SANDBOX_ROOT` and its own localhost port, so
+ * several generations can overlap during a rotation just like remote sandboxes.
+ */
+export function createLocalSandboxProvider(): SandboxProvider {
+  const scope = globalThis as LocalSandboxGlobal;
+  const sandboxes = (scope.__localSandboxes ??= new Map<string, LocalSandbox>());
+  const root = process.env.LOCAL_SANDBOX_ROOT ?? join(tmpdir(), 'next-sandbox-local');
+  const basePort = intEnv('LOCAL_SANDBOX_BASE_PORT', DEFAULT_BASE_PORT, { min: 1, max: 65_535 });
+
+  const stopSandbox = async (sandbox: LocalSandbox) => {
+    sandbox.status = 'stopping';
+    clearTimeout(sandbox.expiryTimer);
+    await Promise.all([...sandbox.processes].map(child => terminate(child)));
+    sandboxes.delete(sandbox.id);
+    await rm(sandbox.workdir, { recursive: true, force: true });
+  };
+
+  return {
+    kind: 'local',
+    async create(options) {
+      const id = `local-${crypto.randomUUID().slice(0, 8)}`;
+      const usedPorts = new Set([...sandboxes.values()].map(sandbox => sandbox.port));
+      const port = await findFreePort(basePort, usedPorts);
+      const workdir = join(root, id);
+
+      await mkdir(root, { recursive: true });
+
+      const sandbox: LocalSandbox = {
+        id,
+        port,
+        workdir,
+        region: options.region ?? 'local',
+        createdAt: Date.now(),
+        status: 'running',
+        processes: new Set(),
+      };
+
+      sandbox.expiryTimer = setTimeout(() => {
+        log('sandbox.local.expired', { sandboxId: id }, 'warn');
+        void stopSandbox(sandbox);
+      }, options.timeoutMs);
+      sandbox.expiryTimer.unref();
+
+      sandboxes.set(id, sandbox);
+      return wrapSandbox(sandbox, () => stopSandbox(sandbox));
+    },
+    async stop(sandboxId) {
+      const sandbox = sandboxes.get(sandboxId);
+      if (!sandbox) {
+        return 'not-found';
+      }
+
+      await stopSandbox(sandbox);
+      return 'stopped';
+    },
+    async list() {
+      return [...sandboxes.values()].map(sandbox => ({
+        id: sandbox.id,
+        status: sandbox.status,
+        region: sandbox.region,
+        createdAt: sandbox.createdAt,
+      }));
+    },
+  };
+}
+
+function wrapSandbox(sandbox: LocalSandbox, stop: () => Promise<void>): SandboxHandle {
+  return {
+    id: sandbox.id,
+    port: sandbox.port,
+    workdir: sandbox.workdir,
+    region: sandbox.region,
+    domain: port => `http://127.0.0.1:${port}`,
+    runCommand: request => runLocalCommand(sandbox, request),
+    async readFile(path) {
+      try {
+        await access(path);
+      } catch {
+        return null;
+      }
+      return createReadStream(path);
+    },
+    async writeFile(path, content) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, content);
+    },
+    stop,
+  };
+}
+
+async function runLocalCommand(sandbox: LocalSandbox, request: SandboxCommandRequest): Promise<SandboxCommandResult> {
+  if (request.sudo) {
+    log('sandbox.local.sudo-ignored', { sandboxId: sandbox.id, cmd: request.cmd }, 'warn');
+  }
+
+  const child = spawn(request.cmd, request.args ?? [], {
+    cwd: request.cwd,
+    env: { ...process.env, ...request.env },
+    // Detached and abortable commands get their own process group so they can be killed with their grandchildren.
+    detached: Boolean(request.detached || request.signal),
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  if (request.stdout) {
+    child.stdout?.pipe(request.stdout);
+  }
+  if (request.stderr) {
+    child.stderr?.pipe(request.stderr);
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', reject);
+  });
+
+  if (request.detached) {
+    sandbox.processes.add(child);
+    child.once('exit', () => sandbox.processes.delete(child));
+    return { detached: true, commandId: String(child.pid) };
+  }
+
+  const abort = () => {
+    void terminate(child);
+  };
+  request.signal?.addEventListener('abort', abort, { once: true });
+
+  return new Promise<SandboxCommandResult>((resolve, reject) => {
+    child.once('error', reject);
+    child.once('close', (exitCode, signal) => {
+      if (request.signal?.aborted) {
+        reject(request.signal.reason);
+        return;
+      }
+      resolve({ detached: false, exitCode, signal });
+    });
+  }).finally(() => request.signal?.removeEventListener('abort', abort));
+}
+
+async function terminate(child: ChildProcess) {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+  signalGroup(child, 'SIGTERM');
+
+  const timer = setTimeout(() => signalGroup(child, 'SIGKILL'), STOP_GRACE_MS);
+  await exited;
+  clearTimeout(timer);
+}
+
+function signalGroup(child: ChildProcess, signal: NodeJS.Signals) {
+  if (!child.pid) {
+    return;
+  }
+
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    child.kill(signal);
+  }
+}
+
+async function findFreePort(basePort: number, usedPorts: Set<number>): Promise<number> {
+  for (let port = basePort; port < basePort + MAX_PORT_PROBES; port += 1) {
+    if (!usedPorts.has(port) && (await isPortFree(port))) {
+      return port;
+    }
+  }
+
+  throw new Error(`No free local sandbox port in range ${basePort}-${basePort + MAX_PORT_PROBES - 1}`);
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, '127.0.0.1', () => {
+      server.close(() => resolve(true));
+    });
+  });
+}
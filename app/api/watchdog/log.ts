@@ -0,0 +1,49 @@
+import { createLogger, type LogFields, type LogLevel } from '../_lib/logger';
+
+export type LogPayload =
+  | Record<string, unknown>
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | Error
+  | unknown[];
+
+const logger = createLogger({ component: 'watchdog' });
+
+export function log(event: string, payload: LogPayload = undefined, level: LogLevel = 'info') {
+  logger[level](event, payloadFields(payload));
+}
+
+export function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  if (typeof error === 'string') {
+    return error;
+  }
+
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+function payloadFields(payload: LogPayload): LogFields | undefined {
+  if (payload === undefined || payload === null) {
+    return undefined;
+  }
+
+  if (payload instanceof Error) {
+    return { error: payload };
+  }
+
+  if (typeof payload === 'object' && !Array.isArray(payload)) {
+    return payload;
+  }
+
+  return { detail: payload };
+}
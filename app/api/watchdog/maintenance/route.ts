@@ -0,0 +1,74 @@
+import { authorizeAdminRequest, type AdminScope } from '../../_lib/adminAuth';
+import {
+  disableMaintenanceMode,
+  enableMaintenanceMode,
+  parseMaintenanceInput,
+  readMaintenanceMode,
+} from '../../_lib/maintenance';
+import { monitoringRoutesDisabled } from '../../_lib/monitoringToggle';
+import { getStateStore } from '../../_lib/stateStore';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(request: Request) {
+  const rejection = await guard(request, 'status');
+  if (rejection) {
+    return rejection;
+  }
+
+  const maintenance = await readMaintenanceMode(getStateStore());
+  return Response.json({ enabled: Boolean(maintenance), maintenance });
+}
+
+/**
+ * Turns maintenance mode on. Optional JSON body: `message` shown to visitors and
+ * `until`, the expected end as an ISO timestamp, which sets `Retry-After`.
+ */
+export async function POST(request: Request) {
+  const rejection = await guard(request, 'pause');
+  if (rejection) {
+    return rejection;
+  }
+
+  const text = await request.text();
+  let body: Record<string, unknown> = {};
+  if (text.trim()) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('not an object');
+      }
+      body = parsed as Record<string, unknown>;
+    } catch {
+      return Response.json({ status: 'invalid-body', detail: 'expected a JSON object' }, { status: 400 });
+    }
+  }
+
+  const input = parseMaintenanceInput(body.message, body.until);
+  if ('error' in input) {
+    return Response.json({ status: 'invalid-body', detail: input.error }, { status: 400 });
+  }
+
+  const maintenance = await enableMaintenanceMode(getStateStore(), input);
+  return Response.json({ enabled: true, maintenance });
+}
+
+export async function DELETE(request: Request) {
+  const rejection = await guard(request, 'pause');
+  if (rejection) {
+    return rejection;
+  }
+
+  const wasEnabled = await disableMaintenanceMode(getStateStore());
+  return Response.json({ enabled: false, wasEnabled });
+}
+
+async function guard(request: Request, scope: AdminScope): Promise<Response | null> {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  return authorizeAdminRequest(request, scope);
+}
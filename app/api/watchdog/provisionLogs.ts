@@ -0,0 +1,250 @@
+import { Readable } from 'node:stream';
+import { intEnv } from '../_lib/env';
+import { redactText } from '../_lib/redact';
+import { getArtifactStore } from './artifactCache';
+import { describeError, log } from './log';
+
+const LOG_PREFIX = 'sandbox-provision-logs';
+const INDEX_KEY = `${LOG_PREFIX}/index.json`;
+const FLUSH_DELAY_MS = 2_000;
+const DEFAULT_MAX_LINES_PER_STEP = 2_000;
+const DEFAULT_RETENTION = 20;
+
+export type ProvisionStatus = 'running' | 'succeeded' | 'failed';
+
+export type ProvisionLogLine = {
+  /** Increases across the whole provision; SSE clients resume from it. */
+  seq: number;
+  at: string;
+  stream: 'stdout' | 'stderr';
+  text: string;
+};
+
+export type ProvisionLogStep = {
+  name: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'succeeded' | 'failed' | 'detached';
+  exitCode?: number | null;
+  error?: string;
+  lines: ProvisionLogLine[];
+  /** Lines dropped from the front of `lines` to stay within the per-step limit. */
+  droppedLines: number;
+};
+
+export type ProvisionLog = {
+  id: string;
+  reason: string;
+  region?: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: ProvisionStatus;
+  error?: string;
+  steps: ProvisionLogStep[];
+  nextSeq: number;
+};
+
+export type ProvisionLogWriter = {
+  stepStarted(step: string): void;
+  output(step: string, stream: ProvisionLogLine['stream'], text: string): void;
+  stepFinished(step: string, outcome: { status: ProvisionLogStep['status']; exitCode?: number | null; error?: string }): void;
+  finish(status: Exclude<ProvisionStatus, 'running'>, error?: string): Promise<void>;
+};
+
+type ProvisionLogGlobal = typeof globalThis & {
+  __sandboxProvisionLogs?: Map<string, ProvisionLog>;
+  __sandboxProvisionLogWriters?: Map<string, ProvisionLogWriter>;
+};
+
+let indexUpdate: Promise<void> = Promise.resolve();
+
+/**
+ * Starts capturing the output of every command run in `sandboxId` until
+ * `finish`. The log lives in memory for live readers on this instance and is
+ * copied to the artifact store, when one is configured, for everyone else.
+ * Without a store, other instances cannot see it (see `provisionLogsShared`).
+ */
+export function startProvisionLog(sandboxId: string, meta: { reason: string; region?: string }): ProvisionLogWriter {
+  const entry: ProvisionLog = {
+    id: sandboxId,
+    reason: meta.reason,
+    ...(meta.region ? { region: meta.region } : {}),
+    startedAt: new Date().toISOString(),
+    status: 'running',
+    steps: [],
+    nextSeq: 1,
+  };
+  const maxLines = maxLinesPerStep();
+  let flushTimer: NodeJS.Timeout | undefined;
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  liveLogs().set(sandboxId, entry);
+  trimLiveLogs();
+  indexUpdate = indexUpdate.then(() => registerPersistedLog(sandboxId));
+
+  const flush = () => {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    const snapshot = JSON.stringify(entry);
+    pendingWrite = pendingWrite.then(() => persistLog(sandboxId, snapshot));
+    return pendingWrite;
+  };
+
+  const scheduleFlush = () => {
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => void flush(), FLUSH_DELAY_MS);
+      flushTimer.unref();
+    }
+  };
+
+  const stepFor = (name: string) => {
+    const steps = entry.steps.filter(step => step.name === name);
+    return steps[steps.length - 1];
+  };
+
+  const writer: ProvisionLogWriter = {
+    stepStarted(step) {
+      entry.steps.push({ name: step, startedAt: new Date().toISOString(), status: 'running', lines: [], droppedLines: 0 });
+      scheduleFlush();
+    },
+    output(step, stream, text) {
+      const target = stepFor(step);
+      if (!target) {
+        return;
+      }
+
+      target.lines.push({ seq: entry.nextSeq++, at: new Date().toISOString(), stream, text: redactText(text) });
+      if (target.lines.length > maxLines) {
+        target.droppedLines += target.lines.length - maxLines;
+        target.lines.splice(0, target.lines.length - maxLines);
+      }
+      scheduleFlush();
+    },
+    stepFinished(step, outcome) {
+      const target = stepFor(step);
+      if (!target) {
+        return;
+      }
+
+      Object.assign(target, outcome, {
+        finishedAt: new Date().toISOString(),
+        ...(outcome.error ? { error: redactText(outcome.error) } : {}),
+      });
+      void flush();
+    },
+    async finish(status, error) {
+      entry.status = status;
+      entry.finishedAt = new Date().toISOString();
+      if (error) {
+        entry.error = redactText(error);
+      }
+      writers().delete(sandboxId);
+      await flush();
+    },
+  };
+
+  writers().set(sandboxId, writer);
+  return writer;
+}
+
+/** The writer of a provision in progress on this instance, if any. */
+export function provisionLogWriter(sandboxId: string): ProvisionLogWriter | undefined {
+  return writers().get(sandboxId);
+}
+
+/** Whether logs reach instances other than the one running the provision. */
+export function provisionLogsShared(): boolean {
+  return getArtifactStore() !== null;
+}
+
+export async function readProvisionLog(sandboxId: string): Promise<ProvisionLog | null> {
+  const live = liveLogs().get(sandboxId);
+  if (live) {
+    return live;
+  }
+
+  const store = getArtifactStore();
+  if (!store) {
+    return null;
+  }
+
+  try {
+    // Logs are rewritten every few seconds while a provision runs; a cached copy would stall live readers.
+    const body = await store.read(logKey(sandboxId), { fresh: true });
+    return body ? (JSON.parse(await readText(body)) as ProvisionLog) : null;
+  } catch (error) {
+    log('sandbox.provision-log.read-error', { sandboxId, error: describeError(error) }, 'warn');
+    return null;
+  }
+}
+
+async function persistLog(sandboxId: string, snapshot: string) {
+  const store = getArtifactStore();
+  if (!store) {
+    return;
+  }
+
+  try {
+    await store.write(logKey(sandboxId), Readable.from([snapshot]), 'application/json');
+  } catch (error) {
+    log('sandbox.provision-log.write-error', { sandboxId, error: describeError(error) }, 'warn');
+  }
+}
+
+/** Adds the log to the persisted index and deletes the ones that fell out of retention. */
+async function registerPersistedLog(sandboxId: string) {
+  const store = getArtifactStore();
+  if (!store) {
+    return;
+  }
+
+  try {
+    const body = await store.read(INDEX_KEY, { fresh: true });
+    const index = body ? (JSON.parse(await readText(body)) as string[]) : [];
+    const next = [...index.filter(id => id !== sandboxId), sandboxId];
+    const expired = next.splice(0, Math.max(0, next.length - retention()));
+
+    await store.write(INDEX_KEY, Readable.from([JSON.stringify(next)]), 'application/json');
+    await Promise.all(expired.map(id => store.remove(logKey(id))));
+  } catch (error) {
+    log('sandbox.provision-log.index-error', { sandboxId, error: describeError(error) }, 'warn');
+  }
+}
+
+function trimLiveLogs() {
+  const logs = liveLogs();
+  const finished = [...logs.values()].filter(entry => entry.status !== 'running');
+  for (const entry of finished.slice(0, Math.max(0, logs.size - retention()))) {
+    logs.delete(entry.id);
+  }
+}
+
+function liveLogs(): Map<string, ProvisionLog> {
+  const scope = globalThis as ProvisionLogGlobal;
+  return (scope.__sandboxProvisionLogs ??= new Map());
+}
+
+function writers(): Map<string, ProvisionLogWriter> {
+  const scope = globalThis as ProvisionLogGlobal;
+  return (scope.__sandboxProvisionLogWriters ??= new Map());
+}
+
+function logKey(sandboxId: string): string {
+  return `${LOG_PREFIX}/${encodeURIComponent(sandboxId)}.json`;
+}
+
+async function readText(body: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function maxLinesPerStep(): number {
+  return intEnv('SANDBOX_PROVISION_LOG_MAX_LINES', DEFAULT_MAX_LINES_PER_STEP, { min: 1 });
+}
+
+function retention(): number {
+  return intEnv('SANDBOX_PROVISION_LOG_RETENTION', DEFAULT_RETENTION, { min: 1 });
+}
@@ -0,0 +1,158 @@
+import { authorizeAdminRequest } from '../../../../_lib/adminAuth';
+import { monitoringRoutesDisabled } from '../../../../_lib/monitoringToggle';
+import { provisionLogsShared, readProvisionLog, type ProvisionLog, type ProvisionLogStep } from '../../../provisionLogs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const POLL_INTERVAL_MS = 1_000;
+const KEEP_ALIVE_MS = 15_000;
+const MAX_STREAM_MS = 15 * 60 * 1000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Provisioning output of one sandbox, grouped by bootstrap step. `?step=` keeps
+ * only the named step. Clients sending `Accept: text/event-stream` (or
+ * `?stream=1`) get the lines as server-sent events until the provision ends;
+ * reconnecting with `Last-Event-ID` resumes after the last line received.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rejection = await authorizeAdminRequest(request, 'status');
+  if (rejection) {
+    return rejection;
+  }
+
+  const { id } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const step = searchParams.get('step') ?? undefined;
+  const entry = await readProvisionLog(id);
+  if (!entry && !provisionLogsShared()) {
+    return Response.json(
+      {
+        status: 'unavailable',
+        detail: 'Provisioning logs are only kept by the instance that ran the provision; set SANDBOX_ARTIFACT_STORE to share them',
+      },
+      { status: 503 },
+    );
+  }
+  if (!entry) {
+    return Response.json({ status: 'not-found', detail: `No provisioning log for ${id}` }, { status: 404 });
+  }
+
+  const wantsStream =
+    searchParams.get('stream') === '1' || (request.headers.get('accept') ?? '').includes('text/event-stream');
+  if (!wantsStream) {
+    return Response.json(step ? { ...entry, steps: entry.steps.filter(item => item.name === step) } : entry);
+  }
+
+  const lastEventId = Number.parseInt(request.headers.get('last-event-id') ?? '', 10);
+  const afterSeq = Number.isInteger(lastEventId) ? lastEventId : 0;
+  return new Response(streamProvisionLog(id, entry, { step, afterSeq, signal: request.signal }), {
+    headers: {
+      'cache-control': 'no-store',
+      'content-type': 'text/event-stream; charset=utf-8',
+      'x-accel-buffering': 'no',
+    },
+  });
+}
+
+function streamProvisionLog(
+  id: string,
+  initial: ProvisionLog,
+  options: { step?: string; afterSeq: number; signal: AbortSignal },
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+  let lastSeq = options.afterSeq;
+  let lastWriteAt = startedAt;
+  const stepStatuses = new Map<string, ProvisionLogStep['status']>();
+  let timer: NodeJS.Timeout | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      const close = () => {
+        clearTimeout(timer);
+        options.signal.removeEventListener('abort', close);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away.
+        }
+      };
+
+      const emit = (entry: ProvisionLog) => {
+        for (const item of entry.steps) {
+          if (options.step && item.name !== options.step) {
+            continue;
+          }
+
+          const stepKey = `${item.name}@${item.startedAt}`;
+          if (stepStatuses.get(stepKey) !== item.status) {
+            stepStatuses.set(stepKey, item.status);
+            send(sseEvent('step', { name: item.name, status: item.status, exitCode: item.exitCode, error: item.error }));
+          }
+
+          for (const line of item.lines) {
+            if (line.seq > lastSeq) {
+              lastSeq = line.seq;
+              send(sseEvent('line', { step: item.name, ...line }, line.seq));
+            }
+          }
+        }
+      };
+
+      const poll = async (entry: ProvisionLog | null) => {
+        if (options.signal.aborted) {
+          return;
+        }
+
+        if (!entry) {
+          send(sseEvent('end', { status: 'missing' }));
+          close();
+          return;
+        }
+
+        emit(entry);
+        if (entry.status !== 'running') {
+          send(sseEvent('end', { status: entry.status, error: entry.error }));
+          close();
+          return;
+        }
+
+        if (Date.now() - startedAt >= MAX_STREAM_MS) {
+          // Clients reconnect with Last-Event-ID and carry on where this stream stopped.
+          close();
+          return;
+        }
+
+        if (Date.now() - lastWriteAt >= KEEP_ALIVE_MS) {
+          send(': keep-alive\n\n');
+        }
+
+        timer = setTimeout(() => void readProvisionLog(id).then(poll, () => poll(entry)), POLL_INTERVAL_MS);
+      };
+
+      options.signal.addEventListener('abort', close, { once: true });
+      send(`retry: ${POLL_INTERVAL_MS * 3}\n\n`);
+      void poll(initial);
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+}
+
+function sseEvent(event: string, data: unknown, id?: number): string {
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
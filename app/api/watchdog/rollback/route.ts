@@ -0,0 +1,21 @@
+import { rollback } from '../watchdog';
+import { authorizeAdminRequest } from '../../_lib/adminAuth';
+import { monitoringRoutesDisabled } from '../../_lib/monitoringToggle';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function POST(request: Request) {
+  if (monitoringRoutesDisabled()) {
+    return new Response(null, { status: 404 });
+  }
+
+  const rejection = await authorizeAdminRequest(request, 'rollback');
+  if (rejection) {
+    return rejection;
+  }
+
+  const sandboxId = new URL(request.url).searchParams.get('sandboxId') ?? undefined;
+  return rollback({ sandboxId });
+}
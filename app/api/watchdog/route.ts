@@ -1,4 +1,5 @@
 import watchdogHandler from './watchdog';
+import { authorizeAdminRequest } from '../_lib/adminAuth';
 import { monitoringRoutesDisabled } from '../_lib/monitoringToggle';
 
 export const runtime = 'nodejs';
@@ -11,18 +12,24 @@ function shouldForceProvision(request: Request) {
 }
 
 export async function GET(request: Request) {
-  if (monitoringRoutesDisabled()) {
-    return new Response(null, { status: 404 });
-  }
-
-  return watchdogHandler({ forceProvision: shouldForceProvision(request) });
+  return handle(request);
 }
 
 export async function POST(request: Request) {
+  return handle(request);
+}
+
+// The scheduled run only needs CRON_SECRET; forcing a new sandbox takes a token scoped for it.
+async function handle(request: Request) {
   if (monitoringRoutesDisabled()) {
     return new Response(null, { status: 404 });
   }
 
-  return watchdogHandler({ forceProvision: shouldForceProvision(request) });
-}
+  const forceProvision = shouldForceProvision(request);
+  const rejection = await authorizeAdminRequest(request, forceProvision ? 'provision' : 'tick');
+  if (rejection) {
+    return rejection;
+  }
 
+  return watchdogHandler({ forceProvision });
+}
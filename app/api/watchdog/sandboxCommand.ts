@@ -0,0 +1,266 @@
+import { PassThrough } from 'node:stream';
+import { intEnv } from '../_lib/env';
+import { observeHistogram } from '../_lib/metrics';
+import { withSpan } from '../_lib/tracing';
+import { describeError, log } from './log';
+import { provisionLogWriter } from './provisionLogs';
+import type { SandboxCommandResult, SandboxHandle } from './sandboxProvider';
+
+const MAX_CAPTURED_STDOUT = 64 * 1024;
+/** Output without a newline for this long is logged as it stands rather than held back further. */
+const MAX_PARTIAL_LINE = 16 * 1024;
+const DEFAULT_STEP_TIMEOUT_MS = 15 * 60 * 1000; // 15 minutes
+const DEFAULT_STEP_SILENCE_MS = 5 * 60 * 1000; // 5 minutes
+
+export type SandboxCommandOptions = {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  sudo?: boolean;
+  detached?: boolean;
+  /** Wall-clock budget for the step; `0` disables it. Defaults to `SANDBOX_STEP_TIMEOUT_MS`. */
+  timeoutMs?: number;
+  /**
+   * Longest the step may go without writing to stdout or stderr; `0` disables it.
+   * Defaults to `SANDBOX_STEP_SILENCE_MS`. Detached steps are only watched until they start.
+   */
+  silenceTimeoutMs?: number;
+  /** Cancels the step from outside; the command is killed and the abort reason is rethrown. */
+  signal?: AbortSignal;
+};
+
+export type SandboxCommandTimeoutKind = 'deadline' | 'silence';
+
+type OutputStream = 'stdout' | 'stderr';
+
+export class SandboxCommandTimeoutError extends Error {
+  constructor(
+    readonly step: string,
+    readonly kind: SandboxCommandTimeoutKind,
+    readonly elapsedMs: number,
+    readonly limitMs: number,
+  ) {
+    super(
+      kind === 'deadline'
+        ? `Sandbox command "${step}" timed out after ${elapsedMs}ms (limit ${limitMs}ms)`
+        : `Sandbox command "${step}" produced no output for ${limitMs}ms (ran ${elapsedMs}ms)`,
+    );
+    this.name = 'SandboxCommandTimeoutError';
+  }
+}
+
+export type SandboxCommandOutcome = SandboxCommandResult & {
+  /** Leading stdout of the command, for steps whose output is consumed (e.g. a hash). */
+  stdout: string;
+};
+
+export function runSandboxCommand(
+  sandbox: SandboxHandle,
+  step: string,
+  options: SandboxCommandOptions,
+): Promise<SandboxCommandOutcome> {
+  const attributes = {
+    'sandbox.id': sandbox.id,
+    'sandbox.command.step': step,
+    'sandbox.command.cmd': options.cmd,
+    'sandbox.command.detached': options.detached ?? false,
+  };
+
+  return withSpan(`sandbox.command ${step}`, { attributes }, async span => {
+    const startedAt = Date.now();
+    const observe = (outcome: string) =>
+      observeHistogram('sandbox_provision_step_duration_seconds', { step, outcome }, (Date.now() - startedAt) / 1000);
+
+    try {
+      const outcome = await executeSandboxCommand(sandbox, step, options);
+      if (!outcome.detached) {
+        span.setAttribute('sandbox.command.exit_code', outcome.exitCode ?? -1);
+      }
+      observe(outcome.detached ? 'detached' : 'succeeded');
+      return outcome;
+    } catch (error) {
+      if (error instanceof SandboxCommandTimeoutError) {
+        span.setAttribute('sandbox.command.timeout', error.kind);
+      }
+      observe(error instanceof SandboxCommandTimeoutError ? `timeout-${error.kind}` : 'failed');
+      throw error;
+    }
+  });
+}
+
+async function executeSandboxCommand(
+  sandbox: SandboxHandle,
+  step: string,
+  options: SandboxCommandOptions,
+): Promise<SandboxCommandOutcome> {
+  options.signal?.throwIfAborted();
+
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  // Commands run while a provision log is open for this sandbox are captured per step.
+  const provisionLog = provisionLogWriter(sandbox.id);
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  const timeoutMs = options.timeoutMs ?? intEnv('SANDBOX_STEP_TIMEOUT_MS', DEFAULT_STEP_TIMEOUT_MS);
+  const silenceTimeoutMs = options.silenceTimeoutMs ?? intEnv('SANDBOX_STEP_SILENCE_MS', DEFAULT_STEP_SILENCE_MS);
+  let captured = '';
+  let silenceTimer: NodeJS.Timeout | undefined;
+  // A detached command keeps writing after the step returns; its output is still logged but no longer watched.
+  let settled = false;
+
+  const timeOut = (kind: SandboxCommandTimeoutKind, limitMs: number) => {
+    if (!controller.signal.aborted) {
+      controller.abort(new SandboxCommandTimeoutError(step, kind, Date.now() - startedAt, limitMs));
+    }
+  };
+
+  const armSilenceTimer = () => {
+    if (silenceTimeoutMs > 0 && !settled) {
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(() => timeOut('silence', silenceTimeoutMs), silenceTimeoutMs);
+    }
+  };
+
+  const deadlineTimer = timeoutMs > 0 ? setTimeout(() => timeOut('deadline', timeoutMs), timeoutMs) : undefined;
+  const forwardAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', forwardAbort, { once: true });
+  armSilenceTimer();
+
+  stdout.setEncoding('utf8');
+  stderr.setEncoding('utf8');
+
+  const emitLine = (stream: OutputStream, line: string) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    provisionLog?.output(step, stream, line);
+    log(
+      stream === 'stdout' ? 'sandbox.command.stdout' : 'sandbox.command.stderr',
+      { sandboxId: sandbox.id, step, message: line },
+      stream === 'stdout' ? 'info' : 'warn',
+    );
+  };
+
+  // Output is redacted a line at a time, so a chunk boundary must not split a line (and a secret in it).
+  const partialLines: Record<OutputStream, string> = { stdout: '', stderr: '' };
+
+  const forwardChunk = (stream: OutputStream) => (chunk: string) => {
+    armSilenceTimer();
+
+    if (stream === 'stdout' && captured.length < MAX_CAPTURED_STDOUT) {
+      captured += chunk.slice(0, MAX_CAPTURED_STDOUT - captured.length);
+    }
+
+    const lines = (partialLines[stream] + chunk).split(/\r?\n/);
+    partialLines[stream] = lines.pop() ?? '';
+    if (partialLines[stream].length > MAX_PARTIAL_LINE) {
+      lines.push(partialLines[stream]);
+      partialLines[stream] = '';
+    }
+    for (const line of lines) {
+      emitLine(stream, line);
+    }
+  };
+
+  const flushPartialLine = (stream: OutputStream) => {
+    const line = partialLines[stream];
+    partialLines[stream] = '';
+    emitLine(stream, line);
+  };
+
+  stdout.on('data', forwardChunk('stdout'));
+  stderr.on('data', forwardChunk('stderr'));
+  stdout.on('end', () => flushPartialLine('stdout'));
+  stderr.on('end', () => flushPartialLine('stderr'));
+
+  provisionLog?.stepStarted(step);
+  log('sandbox.command.start', {
+    sandboxId: sandbox.id,
+    step,
+    cmd: options.cmd,
+    args: options.args,
+    cwd: options.cwd,
+    detached: options.detached ?? false,
+    timeoutMs,
+    silenceTimeoutMs,
+  });
+
+  let result: SandboxCommandResult;
+  try {
+    // Racing the abort keeps the budget even if a provider is slow to honour the signal.
+    result = await Promise.race([
+      sandbox.runCommand({
+        cmd: options.cmd,
+        args: options.args,
+        cwd: options.cwd,
+        env: options.env,
+        sudo: options.sudo,
+        detached: options.detached,
+        stdout,
+        stderr,
+        signal: controller.signal,
+      }),
+      rejectOnAbort(controller.signal),
+    ]);
+  } catch (error) {
+    const reason = controller.signal.aborted ? controller.signal.reason : error;
+    flushPartialLine('stdout');
+    flushPartialLine('stderr');
+    provisionLog?.stepFinished(step, { status: 'failed', error: describeError(reason) });
+    if (reason instanceof SandboxCommandTimeoutError) {
+      log(
+        'sandbox.command.timeout',
+        { sandboxId: sandbox.id, step, kind: reason.kind, elapsedMs: reason.elapsedMs, limitMs: reason.limitMs },
+        'error',
+      );
+    } else if (controller.signal.aborted) {
+      log('sandbox.command.cancelled', { sandboxId: sandbox.id, step, elapsedMs: Date.now() - startedAt }, 'warn');
+    }
+    throw reason;
+  } finally {
+    settled = true;
+    clearTimeout(deadlineTimer);
+    clearTimeout(silenceTimer);
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  if (result.detached) {
+    // Detached commands keep running; exit code is not yet known.
+    provisionLog?.stepFinished(step, { status: 'detached' });
+    log('sandbox.command.detached', {
+      sandboxId: sandbox.id,
+      step,
+      commandId: result.commandId,
+    });
+    return { ...result, stdout: captured };
+  }
+
+  // Providers do not always end the streams; whatever the command printed last has arrived by now.
+  flushPartialLine('stdout');
+  flushPartialLine('stderr');
+
+  const exitCode = result.exitCode ?? null;
+
+  log('sandbox.command.complete', {
+    sandboxId: sandbox.id,
+    step,
+    exitCode,
+    signal: result.signal ?? null,
+    elapsedMs: Date.now() - startedAt,
+  });
+  provisionLog?.stepFinished(step, { status: exitCode === 0 ? 'succeeded' : 'failed', exitCode });
+
+  if (exitCode !== 0) {
+    throw new Error(`Sandbox command "${step}" failed with exit code ${exitCode}`);
+  }
+
+  return { ...result, stdout: captured };
+}
+
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
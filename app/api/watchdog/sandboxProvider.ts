@@ -0,0 +1,91 @@
+import type { Readable, Writable } from 'node:stream';
+import { createLocalSandboxProvider } from './localSandboxProvider';
+import { createVercelSandboxProvider } from './vercelSandboxProvider';
+
+const PROVIDER_FLAG_NAME = 'SANDBOX_PROVIDER';
+
+export type SandboxProviderKind = 'vercel' | 'local';
+
+export type RemoteSandboxStatus = 'pending' | 'running' | 'stopping' | 'stopped' | 'failed';
+
+export type RemoteSandboxSummary = {
+  id: string;
+  status: RemoteSandboxStatus;
+  region: string;
+  createdAt: number;
+};
+
+export type CreateSandboxOptions = {
+  /** Port the app listens on inside the sandbox. */
+  port: number;
+  /** Lifetime after which the provider may reclaim the sandbox. */
+  timeoutMs: number;
+  /** Preferred working directory for the app checkout. */
+  workdir: string;
+  region?: string;
+};
+
+export type SandboxCommandRequest = {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  sudo?: boolean;
+  detached?: boolean;
+  stdout?: Writable;
+  stderr?: Writable;
+  /** Aborting kills the command; the pending call rejects with the abort reason. */
+  signal?: AbortSignal;
+};
+
+export type SandboxCommandResult =
+  | { detached: true; commandId?: string }
+  | { detached: false; exitCode: number | null; signal?: string | null };
+
+export type SandboxHandle = {
+  id: string;
+  /** Port the app must listen on; local sandboxes get their own host port. */
+  port: number;
+  /** Working directory the bootstrap commands should use. */
+  workdir: string;
+  region?: string;
+  domain(port: number): string;
+  runCommand(request: SandboxCommandRequest): Promise<SandboxCommandResult>;
+  /** Streams a file out of the sandbox; `null` when it does not exist. */
+  readFile(path: string): Promise<Readable | null>;
+  writeFile(path: string, content: Buffer): Promise<void>;
+  stop(): Promise<void>;
+};
+
+export type SandboxStopResult = 'stopped' | 'not-found';
+
+export type SandboxProvider = {
+  kind: SandboxProviderKind;
+  create(options: CreateSandboxOptions): Promise<SandboxHandle>;
+  stop(sandboxId: string): Promise<SandboxStopResult>;
+  /** Lists sandboxes in a running-ish state; `null` when the provider cannot list. */
+  list(): Promise<RemoteSandboxSummary[] | null>;
+};
+
+let provider: SandboxProvider | undefined;
+
+export function resolveSandboxProviderKind(): SandboxProviderKind {
+  const value = process.env[PROVIDER_FLAG_NAME]?.trim().toLowerCase();
+
+  if (!value || value === 'vercel') {
+    return 'vercel';
+  }
+
+  if (value === 'local') {
+    return 'local';
+  }
+
+  throw new Error(`Invalid ${PROVIDER_FLAG_NAME} value "${value}"`);
+}
+
+export function getSandboxProvider(): SandboxProvider {
+  if (!provider) {
+    provider = resolveSandboxProviderKind() === 'local' ? createLocalSandboxProvider() : createVercelSandboxProvider();
+  }
+  return provider;
+}
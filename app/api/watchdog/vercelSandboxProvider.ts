@@ -0,0 +1,152 @@
+import { Sandbox } from '@vercel/sandbox';
+import { Readable } from 'node:stream';
+import type { RemoteSandboxStatus, SandboxHandle, SandboxProvider } from './sandboxProvider';
+
+const RUNNING_SANDBOX_STATUSES = new Set<RemoteSandboxStatus>(['pending', 'running', 'stopping']);
+
+type CreateParams = NonNullable<Parameters<typeof Sandbox.create>[0]>;
+
+type SandboxCredentials = {
+  token: string;
+  teamId: string;
+  projectId: string;
+};
+
+export function createVercelSandboxProvider(): SandboxProvider {
+  const credentials = getSandboxCredentials();
+
+  return {
+    kind: 'vercel',
+    async create(options) {
+      const { sandbox, region } = await createInRegion(
+        {
+          ports: [options.port],
+          runtime: 'node22',
+          timeout: options.timeoutMs,
+          ...(credentials ?? {}),
+        },
+        options.region,
+      );
+
+      // An API that ignores the private param places the sandbox anywhere; a pool that
+      // believes it has a member in every region would then be wrong without noticing.
+      if (options.region && region !== options.region) {
+        await sandbox.stop().catch(() => undefined);
+        throw new Error(
+          `Sandbox ${sandbox.sandboxId} was placed in ${region ?? 'an unreported region'} instead of ${options.region}`,
+        );
+      }
+
+      return wrapSandbox(sandbox, options.port, options.workdir, region ?? options.region);
+    },
+    async stop(sandboxId) {
+      try {
+        const instance = await Sandbox.get({
+          sandboxId,
+          ...(credentials ?? {}),
+        });
+
+        await instance.stop();
+        return 'stopped';
+      } catch (error) {
+        if (isSandboxNotFound(error)) {
+          return 'not-found';
+        }
+        throw error;
+      }
+    },
+    async list() {
+      if (!credentials) {
+        return null;
+      }
+
+      const { json } = await Sandbox.list({
+        projectId: credentials.projectId,
+        teamId: credentials.teamId,
+        token: credentials.token,
+        limit: 20,
+      });
+
+      return json.sandboxes
+        .filter(sandbox => RUNNING_SANDBOX_STATUSES.has(sandbox.status))
+        .map(sandbox => ({
+          id: sandbox.id,
+          status: sandbox.status,
+          region: sandbox.region,
+          createdAt: sandbox.createdAt,
+        }));
+    },
+  };
+}
+
+function wrapSandbox(sandbox: Sandbox, port: number, workdir: string, region?: string): SandboxHandle {
+  return {
+    id: sandbox.sandboxId,
+    port,
+    workdir,
+    region,
+    domain: requestedPort => sandbox.domain(requestedPort),
+    async runCommand(request) {
+      if (request.detached) {
+        const command = await sandbox.runCommand({ ...request, detached: true });
+        return { detached: true, commandId: command.cmdId };
+      }
+
+      const { signal, ...params } = request;
+      if (!signal) {
+        const finished = await sandbox.runCommand({ ...params, detached: false });
+        return { detached: false, exitCode: finished.exitCode ?? null };
+      }
+
+      // Aborting a plain runCommand only stops waiting, so start detached and kill the command ourselves.
+      const command = await sandbox.runCommand({ ...params, detached: true, signal });
+      const kill = () => {
+        command.kill('SIGKILL').catch(() => undefined);
+      };
+      signal.addEventListener('abort', kill, { once: true });
+
+      try {
+        const finished = await command.wait({ signal });
+        return { detached: false, exitCode: finished.exitCode ?? null };
+      } finally {
+        signal.removeEventListener('abort', kill);
+      }
+    },
+    async readFile(path) {
+      const stream = await sandbox.readFile({ path });
+      return stream ? Readable.from(stream) : null;
+    },
+    writeFile: (path, content) => sandbox.writeFiles([{ path, content }]),
+    stop: () => sandbox.stop(),
+  };
+}
+
+/**
+ * The one place that reaches past the public SDK surface, which is why
+ * `@vercel/sandbox` is pinned to an exact version; re-check both halves on every
+ * upgrade. 1.0.2 has no region option but forwards `__`-prefixed params to the
+ * create API as they are, and keeps the create response, with the region the
+ * sandbox landed in, on a private `sandbox` field.
+ */
+async function createInRegion(params: CreateParams, region: string | undefined): Promise<{ sandbox: Sandbox; region?: string }> {
+  const sandbox = await Sandbox.create({ ...params, ...(region ? { __region: region } : {}) });
+  const metadata = (sandbox as unknown as { sandbox?: { region?: unknown } }).sandbox;
+  return { sandbox, region: typeof metadata?.region === 'string' ? metadata.region : undefined };
+}
+
+function getSandboxCredentials(): SandboxCredentials | undefined {
+  const token = process.env.VERCEL_TOKEN ?? process.env.VERCEL_API_TOKEN;
+  const teamId = process.env.VERCEL_TEAM_ID ?? process.env.VERCEL_ORG_ID;
+  const projectId = process.env.VERCEL_PROJECT_ID;
+
+  if (token && teamId && projectId) {
+    return { token, teamId, projectId };
+  }
+
+  return undefined;
+}
+
+function isSandboxNotFound(error: unknown): boolean {
+  const response = typeof error === 'object' && error !== null && 'response' in error ? (error as { response?: { status?: number } }).response : undefined;
+  return typeof response?.status === 'number' && response.status === 404;
+}
@@ -1,92 +1,88 @@
-import { get } from '@vercel/edge-config';
-import { Sandbox } from '@vercel/sandbox';
-import { PassThrough } from 'node:stream';
+import type { Span } from '@opentelemetry/api';
 import pRetry from 'p-retry';
+import { intEnv } from '../_lib/env';
+import { internalAuthEnv, optionalInternalAuthHeaders, signInternalRequest } from '../_lib/internalAuth';
+import { flushLogs, withLogContext } from '../_lib/logger';
+import { incrementCounter, observeHistogram, persistPendingMetrics } from '../_lib/metrics';
 import { monitoringRoutesDisabled } from '../_lib/monitoringToggle';
+import { configuredRegions } from '../_lib/regions';
+import { DEFAULT_TARGET_WEIGHT, type RoutingTable } from '../_lib/routingTargets';
+import {
+  DEFAULT_STATE,
+  STATE_KEYS,
+  readSandboxState,
+  resolvePool,
+  type CanaryRecord,
+  type DrainingSandboxRecord,
+  type SandboxRecord,
+  type SandboxState,
+} from '../_lib/sandboxState';
+import { getStateStore, resolveStateStoreKind, type StateStoreOperation } from '../_lib/stateStore';
+import { markSpanFailed, withSpan } from '../_lib/tracing';
+import { flushNotifications, notify } from '../_lib/webhooks';
+import { loadBootstrapPipeline, runBootstrapPipeline } from './bootstrapPipeline';
+import { canaryPercent, canaryStepDue, canarySteps, startCanary } from './canary';
+import { drainPolicy, drainVerdict, requestSandboxDrain } from './drain';
+import { discardPendingEvents, recordEvent, takePendingEventsOperation } from './eventHistory';
+import { classifyHealth, healthPolicy, pruneHealthHistory, recordHealthSample, rotationVerdict } from './healthHistory';
+import { evaluateHealth, healthThresholds } from './healthScore';
+import { acquireLease, assertLeaseStoreConfigured, LeaseLostError, type LeaseHandle } from './lease';
+import { describeError, log } from './log';
+import { startProvisionLog } from './provisionLogs';
+import { getSandboxProvider, type RemoteSandboxSummary, type SandboxHandle } from './sandboxProvider';
 
 const HEALTH_ENDPOINT = '/api/health';
 const KEEPALIVE_ENDPOINT = '/internal/keepalive';
 const ROTATION_INTERVAL_MS = 5 * 60 * 60 * 1000; // 5 hourss
 const HEALTH_TIMEOUT_MS = 8_000;
-const DRAIN_GRACE_MS = 10 * 60 * 1000; // 10 minutes
+const ROLLBACK_HOLD_MS = 60 * 60 * 1000; // 1 hour
 
-const EDGE_CONFIG_ID = env('EDGE_CONFIG_ID');
-const EDGE_CONFIG_TOKEN = env('EDGE_CONFIG_TOKEN');
 const SANDBOX_APP_REPO = env('SANDBOX_APP_REPO');
 const SANDBOX_APP_REF = process.env.SANDBOX_APP_REF ?? 'main';
 const SANDBOX_KEEPALIVE_TOKEN = env('KEEPALIVE_TOKEN');
-const SANDBOX_START_PORT = process.env.SANDBOX_PORT ?? '3000';
+// Sandboxes log and export traces in the same shape and to the same places as the watchdog, so the two can be joined.
+const FORWARDED_TELEMETRY_ENV = [
+  'LOG_LEVEL',
+  'LOG_FORMAT',
+  'LOG_SINKS',
+  'LOG_DRAIN_URL',
+  'LOG_DRAIN_TOKEN',
+  'OTEL_EXPORTER_OTLP_ENDPOINT',
+  'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT',
+  'OTEL_EXPORTER_OTLP_PROTOCOL',
+  'OTEL_EXPORTER_OTLP_HEADERS',
+] as const;
 const SANDBOX_WORKDIR = process.env.SANDBOX_WORKDIR ?? '/tmp/next-sandbox-app';
-const SANDBOX_START_PORT_NUMBER = parsePort(SANDBOX_START_PORT);
-const SANDBOX_CREDENTIALS = getSandboxCredentials();
-const RUNNING_SANDBOX_STATUSES = new Set<RemoteSandboxStatus>(['pending', 'running', 'stopping']);
-const EDGE_CONFIG_KEYS = {
-  active: 'sandbox_active_url',
-  lastKnownGood: 'sandbox_last_known_good_url',
-  previous: 'sandbox_previous_url',
-  state: 'sandbox_state',
-} as const;
-
-const LEGACY_EDGE_CONFIG_KEYS = {
-  active: 'sandbox.activeUrl',
-  lastKnownGood: 'sandbox.lastKnownGoodUrl',
-  previous: 'sandbox.previousUrl',
-  state: 'sandbox.state',
-} as const;
-
+const SANDBOX_START_PORT_NUMBER = intEnv('SANDBOX_PORT', 3000, { min: 1, max: 65_535 });
+const SANDBOX_POOL_SIZE = intEnv('SANDBOX_POOL_SIZE', 1, { min: 1 });
+const SANDBOX_REGIONS = configuredRegions();
+const SANDBOX_BOOTSTRAP_PIPELINE = loadBootstrapPipeline();
+const SANDBOX_HEALTH_THRESHOLDS = healthThresholds();
+const SANDBOX_HEALTH_POLICY = healthPolicy();
+if (!monitoringRoutesDisabled()) {
+  assertLeaseStoreConfigured(resolveStateStoreKind());
+}
 export const config = {
   runtime: 'nodejs20.x',
   schedule: '*/5 * * * *',
 };
 
-type SandboxRecord = {
-  id: string;
-  url: string;
-  createdAt: string;
-  status: 'provisioning' | 'healthy' | 'unhealthy';
-};
-
-type DrainingSandboxRecord = SandboxRecord & {
-  drainStartedAt: string;
-};
-
-type SandboxState = {
-  active?: SandboxRecord;
-  draining: DrainingSandboxRecord[];
-  lastRotationAt?: string | null;
-  lastCheckAt?: string | null;
-  lastFailure?: { reason: string; at: string } | null;
-};
-
-type SandboxCredentials = {
-  token: string;
-  teamId: string;
-  projectId: string;
-};
-
 type SandboxHealth =
-  | { healthy: true; payload: Record<string, unknown> }
-  | { healthy: false; reason: string };
-
-type RemoteSandboxStatus = 'pending' | 'running' | 'stopping' | 'stopped' | 'failed';
-
-type RemoteSandboxSummary = {
-  id: string;
-  status: RemoteSandboxStatus;
-  region: string;
-  createdAt: number;
-};
-
-const DEFAULT_STATE: SandboxState = {
-  draining: [],
-};
+  | { healthy: true; payload: Record<string, unknown>; latencyMs: number }
+  | { healthy: false; reason: string; latencyMs: number };
 
 type WatchdogOptions = {
   forceProvision?: boolean;
 };
 
+type RollbackOptions = {
+  /** Draining sandbox to restore; defaults to the one behind `sandbox_previous_url`. */
+  sandboxId?: string;
+};
+
 type EnsureSandboxHealthOptions = {
   forceProvision?: boolean;
+  lease: LeaseHandle;
 };
 
 export default async function handler(options: WatchdogOptions = {}) {
@@ -97,30 +93,225 @@ export default async function handler(options: WatchdogOptions = {}) {
 
   const { forceProvision = false } = options;
 
-  if (!forceProvision) {
-    const runningSandboxes = await listRunningSandboxes();
-    if (runningSandboxes.length > 0) {
-      log('watchdog.skip.active-sandboxes', {
-        sandboxes: runningSandboxes.map(sandbox => ({
+  // Cron ticks exit quietly on a held lease; a forced run is told it collided with the in-flight operation.
+  return withLease(forceProvision ? 'force-provision' : 'tick', forceProvision ? 409 : 200, lease =>
+    runTick(forceProvision, lease),
+  );
+}
+
+/**
+ * Re-promotes a draining sandbox (by default the one behind `sandbox_previous_url`)
+ * and holds rotation so the next tick does not rotate straight back.
+ */
+export async function rollback(options: RollbackOptions = {}) {
+  if (monitoringRoutesDisabled()) {
+    log('watchdog.disabled', {});
+    return new Response('watchdog routes disabled', { status: 200 });
+  }
+
+  return withLease('rollback', 409, lease => runRollback(options, lease));
+}
+
+export type FleetOverview = {
+  state: SandboxState;
+  /** When each draining sandbox is decommissioned at the latest; idle ones go sooner. */
+  drainDeadlines: Record<string, string>;
+  /** Earliest tick that rotates a pool member; `null` while a canary is in progress. */
+  nextRotationAt: string | null;
+  running: RemoteSandboxSummary[];
+};
+
+/** Read-only snapshot of the fleet for the operator dashboard. */
+export async function fleetOverview(): Promise<FleetOverview> {
+  const [state, running] = await Promise.all([loadState(), listRunningSandboxes()]);
+  const { maxMs } = drainPolicy();
+  const drainDeadlines = Object.fromEntries(
+    (state.draining ?? []).map(sandbox => [
+      sandbox.id,
+      new Date(new Date(sandbox.drainStartedAt).getTime() + maxMs).toISOString(),
+    ]),
+  );
+
+  const pool = resolvePool(state);
+  let nextRotationAt: string | null = null;
+  if (!state.canary && pool.length > 0) {
+    const due = Math.min(...pool.map(member => new Date(member.createdAt).getTime() + ROTATION_INTERVAL_MS));
+    const holdUntil = state.rotationHold ? new Date(state.rotationHold.until).getTime() : 0;
+    nextRotationAt = new Date(Math.max(due, holdUntil)).toISOString();
+  }
+
+  return { state, drainDeadlines, nextRotationAt, running };
+}
+
+async function withLease(operation: string, busyStatus: number, run: (lease: LeaseHandle) => Promise<Response>): Promise<Response> {
+  const tickId = crypto.randomUUID();
+  const attributes = { 'watchdog.operation': operation, 'watchdog.tick_id': tickId };
+
+  // Every record logged during this run carries its tick id, and every span hangs off one root per run.
+  return withLogContext({ tickId }, () =>
+    withSpan(`watchdog.${operation}`, { root: true, attributes }, async span => {
+      try {
+        const response = await runUnderLease(operation, busyStatus, run);
+        span.setAttribute('http.response.status_code', response.status);
+        return response;
+      } finally {
+        // Deliveries log their outcome, so they settle before the logs are flushed.
+        await flushNotifications();
+        await flushLogs();
+      }
+    }),
+  );
+}
+
+async function runUnderLease(operation: string, busyStatus: number, run: (lease: LeaseHandle) => Promise<Response>): Promise<Response> {
+  const acquisition = await acquireLease(getStateStore(), crypto.randomUUID(), operation);
+
+  if (!acquisition.acquired) {
+    const { current } = acquisition;
+    log('watchdog.skip.lease-held', { holderId: current.holderId, operation: current.operation, expiresAt: current.expiresAt });
+    return Response.json(
+      {
+        status: 'in-progress',
+        operation: current.operation,
+        holderId: current.holderId,
+        acquiredAt: current.acquiredAt,
+        expiresAt: current.expiresAt,
+      },
+      { status: busyStatus },
+    );
+  }
+
+  const { lease } = acquisition;
+
+  try {
+    return await run(lease);
+  } finally {
+    // Anything still queued belongs to a run that did not get to persist its state.
+    discardPendingEvents();
+    // Metrics are kept regardless: a failed run is exactly what they should show.
+    await persistPendingMetrics(getStateStore());
+    await lease.release().catch(error => {
+      log('watchdog.lease.release-error', { holderId: lease.holderId, error: describeError(error) }, 'warn');
+    });
+  }
+}
+
+async function runRollback(options: RollbackOptions, lease: LeaseHandle): Promise<Response> {
+  const state = await loadState();
+  const nextState = cloneState(state);
+  nextState.draining = nextState.draining ?? [];
+
+  const previousUrl = await getStateStore().get<string>(STATE_KEYS.previous);
+  // A sandbox whose stop failed may be half gone; it is only waiting to be stopped again.
+  const restorable = nextState.draining.filter(sandbox => !sandbox.stopFailedAt);
+  const candidate = options.sandboxId
+    ? restorable.find(sandbox => sandbox.id === options.sandboxId)
+    : restorable.find(sandbox => sandbox.url === previousUrl) ??
+      [...restorable].sort((left, right) => right.drainStartedAt.localeCompare(left.drainStartedAt))[0];
+
+  if (!candidate) {
+    log('sandbox.rollback.no-candidate', { sandboxId: options.sandboxId ?? null, previousUrl: previousUrl ?? null }, 'warn');
+    return Response.json({ status: 'no-candidate', detail: 'No draining sandbox to roll back to' }, { status: 404 });
+  }
+
+  await lease.setOperation('rollback-health-check');
+  const health = await checkSandboxHealth(candidate, 'candidate');
+  if (!health.healthy) {
+    log('sandbox.rollback.unhealthy', { sandboxId: candidate.id, reason: health.reason }, 'warn');
+    return Response.json(
+      { status: 'candidate-unhealthy', sandboxId: candidate.id, reason: health.reason },
+      { status: 422 },
+    );
+  }
+
+  await lease.setOperation('rollback');
+  const { drainStartedAt: _drainStartedAt, activity: _activity, rolledBack: _rolledBack, ...restored } = candidate;
+  const pool = resolvePool(nextState);
+  const displaced = pool.find(member => regionOf(member) === regionOf(restored));
+  const retiring = [...(displaced ? [displaced] : []), ...(nextState.canary ? [nextState.canary.sandbox] : [])];
+
+  nextState.draining = nextState.draining.filter(sandbox => sandbox.id !== candidate.id);
+  retireMembers(nextState, retiring, { rolledBack: true });
+  nextState.canary = null;
+
+  const nextPool = [{ ...restored, status: 'healthy' as const }, ...pool.filter(member => member.id !== displaced?.id)];
+  setPool(nextState, nextPool);
+
+  const holdMs = intEnv('SANDBOX_ROLLBACK_HOLD_MS', ROLLBACK_HOLD_MS);
+  nextState.rotationHold = {
+    reason: 'rollback',
+    sandboxId: restored.id,
+    until: new Date(Date.now() + holdMs).toISOString(),
+  };
+
+  lease.assertHeld();
+  // promoteSandbox writes the URL keys and the routing table in a single store update.
+  await promoteSandbox(nextPool, nextState.draining, displaced);
+  // The sandbox may have been told to drain; a failure here only leaves its drain flag set, which routing ignores.
+  await requestSandboxDrain(candidate, 'DELETE');
+  recordEvent('rollback', {
+    sandboxIds: [restored.id, ...retiring.map(sandbox => sandbox.id)],
+    reason: options.sandboxId ? 'operator-selected' : 'previous-primary',
+    region: restored.region,
+    detail: { holdUntil: nextState.rotationHold.until },
+  });
+  notify('rollback', {
+    severity: 'warning',
+    title: 'Rolled back to a previous sandbox',
+    text: `Routing restored to ${restored.id}${displaced ? ` in place of ${displaced.id}` : ''}; rotation is held until ${nextState.rotationHold.until}.`,
+    sandboxIds: [restored.id, ...retiring.map(sandbox => sandbox.id)],
+    region: restored.region,
+    detail: { reason: options.sandboxId ? 'operator-selected' : 'previous-primary', holdUntil: nextState.rotationHold.until },
+  });
+  await persistState(nextState);
+
+  log('sandbox.rollback.complete', { restored: restored.id, displaced: displaced?.id ?? null, holdUntil: nextState.rotationHold.until });
+
+  return Response.json({
+    status: 'rolled-back',
+    active: { id: restored.id, url: restored.url },
+    previous: displaced ? { id: displaced.id, url: displaced.url } : null,
+    rotationHeldUntil: nextState.rotationHold.until,
+  });
+}
+
+async function runTick(forceProvision: boolean, lease: LeaseHandle): Promise<Response> {
+  const startedAt = Date.now();
+  const state = await loadState();
+
+  // Sandboxes running that the state does not know about are left over from a failed provision
+  // or a lost write. They are stopped and the tick goes on: skipping it would lock the watchdog
+  // out for as long as one of them runs.
+  const tracked = new Set(
+    [...resolvePool(state), ...(state.draining ?? []), ...(state.canary ? [state.canary.sandbox] : [])].map(sandbox => sandbox.id),
+  );
+  const untracked = (await listRunningSandboxes()).filter(sandbox => !tracked.has(sandbox.id));
+  if (untracked.length > 0) {
+    log(
+      'watchdog.untracked-sandboxes',
+      {
+        sandboxes: untracked.map(sandbox => ({
           id: sandbox.id,
           status: sandbox.status,
           region: sandbox.region,
           createdAt: sandbox.createdAt,
         })),
-      });
-      return new Response('sandbox already running', { status: 200 });
-    }
+      },
+      'warn',
+    );
+    await lease.setOperation('stop-untracked');
+    await Promise.all(untracked.map(sandbox => stopUntrackedSandbox(sandbox.id, 'untracked')));
   }
 
-  const startedAt = Date.now();
-  const state = await loadState();
-
-  log('watchdog.tick', { state, forceProvision });
+  log('watchdog.tick', { state, forceProvision, holderId: lease.holderId });
+  if (forceProvision) {
+    recordEvent('forced-run', { reason: 'force-provision-request' });
+  }
 
   try {
-    const nextState = await ensureSandboxHealth(state, { forceProvision });
+    const nextState = await ensureSandboxHealth(state, { forceProvision, lease });
     nextState.lastCheckAt = new Date().toISOString();
-    nextState.lastFailure = null;
+    lease.assertHeld();
     await persistState(nextState);
     log('watchdog.tick.complete', { durationMs: Date.now() - startedAt });
   } catch (error) {
@@ -130,6 +321,18 @@ export default async function handler(options: WatchdogOptions = {}) {
     };
     log('watchdog.tick.failed', failure, 'error');
 
+    if (error instanceof LeaseLostError) {
+      // The new holder owns the state now; writing ours back would clobber it.
+      return new Response('watchdog lease lost', { status: 409 });
+    }
+
+    notify('watchdog.tick.failed', {
+      severity: 'critical',
+      title: 'Watchdog tick failed',
+      text: failure.reason,
+      detail: { forceProvision },
+    });
+
     state.lastFailure = { reason: failure.reason, at: new Date().toISOString() };
     await persistState(state);
 
@@ -139,81 +342,459 @@ export default async function handler(options: WatchdogOptions = {}) {
   return new Response('ok');
 }
 
-async function ensureSandboxHealth(state: SandboxState, options: EnsureSandboxHealthOptions = {}): Promise<SandboxState> {
-  const { forceProvision = false } = options;
-  let nextState = cloneState(state ?? DEFAULT_STATE);
+async function ensureSandboxHealth(state: SandboxState, options: EnsureSandboxHealthOptions): Promise<SandboxState> {
+  const { forceProvision = false, lease } = options;
+  const nextState = cloneState(state ?? DEFAULT_STATE);
 
   if (!nextState.draining) {
     nextState.draining = [];
   }
 
-  const active = nextState.active;
   const now = Date.now();
-  const rotationDue = !nextState.lastRotationAt
-    ? false
-    : now - new Date(nextState.lastRotationAt).getTime() >= ROTATION_INTERVAL_MS;
+  const targetSize = SANDBOX_POOL_SIZE;
+  const regions: (string | undefined)[] = SANDBOX_REGIONS.length > 0 ? SANDBOX_REGIONS : [undefined];
+  const rotationHeld = Boolean(nextState.rotationHold && new Date(nextState.rotationHold.until).getTime() > now);
+  if (nextState.rotationHold && !rotationHeld) {
+    nextState.rotationHold = null;
+  }
+  const previousPrimary = resolvePool(nextState)[0];
+  nextState.lastFailure = null;
+
+  await lease.setOperation('health-check');
+  let members: SandboxRecord[] = [];
+  const failed: { sandbox: SandboxRecord; reason: string }[] = [];
+
+  for (const member of resolvePool(nextState)) {
+    const health = await checkSandboxHealth(member, 'active');
+    const outcome = classifyHealth(health.healthy, health.latencyMs, SANDBOX_HEALTH_POLICY);
+    const history = recordHealthSample(
+      nextState,
+      member.id,
+      {
+        at: new Date().toISOString(),
+        outcome,
+        latencyMs: health.latencyMs,
+        ...(health.healthy ? {} : { reason: health.reason }),
+      },
+      SANDBOX_HEALTH_POLICY,
+    );
+    const verdict = rotationVerdict(history, SANDBOX_HEALTH_POLICY);
+
+    if (!health.healthy) {
+      recordEvent('health.failure', {
+        sandboxIds: [member.id],
+        reason: health.reason,
+        durationMs: health.latencyMs,
+        region: member.region,
+        detail: { rotated: verdict.rotate, ...(verdict.rotate ? { verdict: verdict.reason } : {}) },
+      });
+    }
+
+    if (verdict.rotate) {
+      notify('health.failing', {
+        severity: 'warning',
+        title: 'Sandbox failing health checks',
+        text: `${member.id} is being replaced: ${verdict.reason}.`,
+        sandboxIds: [member.id],
+        region: member.region,
+        detail: { lastReason: health.healthy ? null : health.reason, samples: history.length },
+        dedupeKey: member.id,
+      });
+    }
+
+    if (verdict.rotate) {
+      failed.push({ sandbox: { ...member, status: 'unhealthy' }, reason: verdict.reason });
+      continue;
+    }
+
+    if (outcome === 'unhealthy') {
+      // Below the hysteresis thresholds: keep routing to it and look again next tick.
+      log('sandbox.health.suspect', { sandboxId: member.id, reason: health.healthy ? null : health.reason, samples: history.length }, 'warn');
+    } else {
+      await pingKeepalive(member.url);
+    }
+    members.push({ ...member, status: outcome });
+  }
 
-  const health: SandboxHealth = forceProvision
-    ? { healthy: false, reason: 'force-provision-request' }
-    : active
-      ? await checkSandboxHealth(active, 'active')
-      : { healthy: false, reason: 'no-active-sandbox' };
+  setPool(nextState, members);
 
-  if (health.healthy && active) {
-    await pingKeepalive(active.url);
+  if (failed.length > 0) {
+    // Stop routing to failed members now instead of after their replacements are ready.
+    retireMembers(nextState, failed.map(entry => entry.sandbox));
+    if (members.length > 0) {
+      await publishRouting(members, nextState.draining, nextState.canary);
+    }
   }
 
-  const shouldProvision = forceProvision || !health.healthy || rotationDue;
+  const surplus = regions.flatMap(region => {
+    const regional = members.filter(member => regionOf(member) === region);
+    return oldestFirst(regional).slice(0, Math.max(0, regional.length - targetSize));
+  });
+  // Members of a region that was removed from SANDBOX_REGIONS are surplus as a whole.
+  surplus.push(...members.filter(member => !regions.includes(regionOf(member))));
+
+  if (surplus.length > 0) {
+    log('sandbox.pool.shrink', { targetSize, surplus: surplus.map(sandbox => sandbox.id) });
+    retireMembers(nextState, surplus);
+    members = members.filter(member => !surplus.includes(member));
+    setPool(nextState, members);
+    await publishRouting(members, nextState.draining, nextState.canary);
+  }
 
-  if (shouldProvision) {
-    const reason = forceProvision
-      ? 'force-provision-request'
-      : !health.healthy
-        ? health.reason ?? 'health-check-failed'
-        : 'rotation-due';
-    log('sandbox.provision.start', { reason, previous: active?.id });
+  if (nextState.canary) {
+    await lease.setOperation('canary');
+    await advanceCanary(nextState, now);
+    members = resolvePool(nextState);
+  }
 
-    const newSandbox = await provisionSandbox(reason);
-    log('sandbox.provision.created', newSandbox);
+  const replacements = regions.flatMap(region =>
+    planReplacements(
+      members.filter(member => regionOf(member) === region),
+      failed.filter(entry => regionOf(entry.sandbox) === region),
+      { forceProvision, targetSize, now, canaryActive: Boolean(nextState.canary), rotationHeld },
+    ).map(replacement => ({ ...replacement, region })),
+  );
+
+  if (replacements.length > 0) {
+    await lease.setOperation('provision');
+    const results = await Promise.allSettled(
+      replacements.map(async replacement => {
+        log('sandbox.provision.start', { reason: replacement.reason, region: replacement.region, previous: replacement.replaces?.id });
+        const provisionStartedAt = Date.now();
+        const replacedIds = replacement.replaces ? [replacement.replaces.id] : [];
+        recordEvent('provision.started', { sandboxIds: replacedIds, reason: replacement.reason, region: replacement.region });
+        incrementCounter('sandbox_rotations_total', { reason: rotationReason(replacement.reason) });
+
+        try {
+          const fresh = await provisionSandbox(replacement.reason, replacement.region);
+          log('sandbox.provision.created', fresh);
+
+          await waitForSandboxReadiness(fresh).catch(async error => {
+            await stopUntrackedSandbox(fresh.id, 'not-ready');
+            throw error;
+          });
+          log('sandbox.provision.ready', fresh);
+          recordEvent('provision.succeeded', {
+            sandboxIds: [fresh.id, ...replacedIds],
+            reason: replacement.reason,
+            durationMs: Date.now() - provisionStartedAt,
+            region: replacement.region,
+          });
+          return fresh;
+        } catch (error) {
+          recordEvent('provision.failed', {
+            sandboxIds: replacedIds,
+            reason: describeError(error),
+            durationMs: Date.now() - provisionStartedAt,
+            region: replacement.region,
+            detail: { trigger: replacement.reason },
+          });
+          notify('provision.failed', {
+            severity: 'critical',
+            title: 'Sandbox provisioning failed',
+            text: `Gave up on a replacement${replacement.replaces ? ` for ${replacement.replaces.id}` : ''} after all retries: ${describeError(error)}`,
+            sandboxIds: replacedIds,
+            region: replacement.region,
+            detail: { trigger: replacement.reason, durationMs: Date.now() - provisionStartedAt },
+            dedupeKey: replacement.region ?? 'default',
+          });
+          throw error;
+        }
+      }),
+    );
+
+    lease.assertHeld();
+    await lease.setOperation('promote');
+
+    let pool = resolvePool(nextState);
+    const failures: string[] = [];
+    const steps = canarySteps();
+
+    results.forEach((result, index) => {
+      const { replaces, reason } = replacements[index];
+      if (result.status === 'rejected') {
+        failures.push(describeError(result.reason));
+        return;
+      }
+
+      // Only replacements of a serving member go through a canary; filling an empty
+      // slot or an operator-forced run needs the capacity now.
+      if (steps.length > 0 && replaces && reason !== 'force-provision-request' && !nextState.canary) {
+        nextState.canary = startCanary({ ...result.value, status: 'healthy' }, replaces, steps);
+        log('sandbox.canary.start', { canary: result.value.id, replaces: replaces.id, percent: canaryPercent(nextState.canary) });
+        return;
+      }
+
+      if (replaces) {
+        pool = pool.filter(member => member.id !== replaces.id);
+        retireMembers(nextState, [replaces]);
+      }
+      pool = [{ ...result.value, status: 'healthy' }, ...pool];
+      nextState.lastRotationAt = new Date().toISOString();
+      recordEvent('promotion', {
+        sandboxIds: [result.value.id, ...(replaces ? [replaces.id] : [])],
+        reason,
+        region: result.value.region,
+      });
+      notifyPromotion(result.value, replaces, reason);
+    });
 
-    await waitForSandboxReadiness(newSandbox);
-    log('sandbox.provision.ready', newSandbox);
+    setPool(nextState, pool);
 
-    await promoteSandbox(newSandbox, active);
+    if (pool.length === 0) {
+      throw new Error(failures[0] ?? 'no-healthy-sandbox');
+    }
 
-    nextState.active = { ...newSandbox, status: 'healthy' };
-    nextState.lastRotationAt = new Date().toISOString();
+    await promoteSandbox(pool, nextState.draining, previousPrimary, nextState.canary);
 
-    if (active) {
-      nextState.draining.push({ ...active, drainStartedAt: new Date().toISOString() });
+    if (failures.length > 0) {
+      log('sandbox.pool.partial-provision', { failures, size: pool.length, targetSize }, 'warn');
+      nextState.lastFailure = { reason: failures[0], at: new Date().toISOString() };
     }
   }
 
   if (nextState.draining.length > 0) {
-    const survivors: DrainingSandboxRecord[] = [];
-    for (const draining of nextState.draining) {
-      const drainAge = now - new Date(draining.drainStartedAt).getTime();
-      if (drainAge >= DRAIN_GRACE_MS) {
-        await decommissionSandbox(draining, drainAge);
-      } else {
-        survivors.push(draining);
+    await lease.setOperation('decommission');
+    await decommissionDrained(nextState, now);
+  }
+
+  pruneHealthHistory(nextState, resolvePool(nextState).map(member => member.id));
+
+  return nextState;
+}
+
+/**
+ * Asks every draining sandbox to drain and stops the ones that report being idle,
+ * plus any that reached the hard upper bound whatever their activity.
+ */
+async function decommissionDrained(state: SandboxState, now: number) {
+  const policy = drainPolicy();
+  const due: { sandbox: DrainingSandboxRecord; trigger: string }[] = [];
+  const survivors: DrainingSandboxRecord[] = [];
+
+  for (const sandbox of state.draining) {
+    const settled = Boolean(sandbox.stopFailedAt) || now - Date.parse(sandbox.drainStartedAt) >= policy.maxMs;
+    const activity = settled ? null : await requestSandboxDrain(sandbox);
+    const verdict = drainVerdict(sandbox, activity, policy, now);
+    if (verdict.decommission) {
+      due.push({ sandbox, trigger: verdict.trigger });
+    } else {
+      survivors.push(activity ? { ...sandbox, activity } : sandbox);
+    }
+  }
+
+  state.draining = survivors;
+  if (due.length > 0) {
+    // Unpin clients before stopping their sandbox, so none are routed to it after it is gone.
+    const pool = resolvePool(state);
+    if (pool.length > 0) {
+      await publishRouting(pool, state.draining, state.canary);
+    }
+  }
+
+  // A sandbox that could not be stopped stays on the drain list, unrouted, until a stop succeeds.
+  for (const { sandbox, trigger } of due) {
+    if (!(await decommissionSandbox(sandbox, now - Date.parse(sandbox.drainStartedAt), trigger))) {
+      state.draining.push({ ...sandbox, stopFailedAt: sandbox.stopFailedAt ?? new Date(now).toISOString() });
+    }
+  }
+}
+
+/**
+ * Moves a running canary one step along while its health holds. At 100% it takes
+ * over from the member it replaces; a failed check pulls it out of rotation.
+ */
+async function advanceCanary(state: SandboxState, now: number) {
+  const canary = state.canary;
+  if (!canary) {
+    return;
+  }
+
+  const health = await checkSandboxHealth(canary.sandbox, 'candidate');
+  let pool = resolvePool(state);
+
+  if (!health.healthy) {
+    log('sandbox.canary.aborted', { canary: canary.sandbox.id, percent: canaryPercent(canary), reason: health.reason }, 'warn');
+    recordEvent('canary.aborted', {
+      sandboxIds: [canary.sandbox.id],
+      reason: health.reason,
+      durationMs: now - Date.parse(canary.startedAt),
+      region: canary.sandbox.region,
+      detail: { percent: canaryPercent(canary) },
+    });
+    retireMembers(state, [{ ...canary.sandbox, status: 'unhealthy' }]);
+    state.canary = null;
+    state.lastFailure = { reason: `canary-unhealthy: ${health.reason}`, at: new Date().toISOString() };
+    if (pool.length > 0) {
+      await publishRouting(pool, state.draining);
+    }
+    return;
+  }
+
+  // With no stable member left in its region to split against, the canary takes over straight away.
+  const hasPeers = pool.some(member => regionOf(member) === regionOf(canary.sandbox));
+  if (hasPeers && !canaryStepDue(canary, now)) {
+    return;
+  }
+
+  const nextIndex = canary.stepIndex + 1;
+  if (hasPeers && nextIndex < canary.steps.length && canary.steps[nextIndex] < 100) {
+    state.canary = { ...canary, stepIndex: nextIndex, advancedAt: new Date(now).toISOString() };
+    log('sandbox.canary.advance', { canary: canary.sandbox.id, percent: canaryPercent(state.canary) });
+    await publishRouting(pool, state.draining, state.canary);
+    return;
+  }
+
+  const previousPrimary = pool[0];
+  const { replaces } = canary;
+  if (replaces && pool.some(member => member.id === replaces.id)) {
+    pool = pool.filter(member => member.id !== replaces.id);
+    retireMembers(state, [replaces]);
+  }
+
+  pool = [canary.sandbox, ...pool];
+  setPool(state, pool);
+  state.canary = null;
+  state.lastRotationAt = new Date().toISOString();
+  log('sandbox.canary.complete', { canary: canary.sandbox.id, replaces: replaces?.id });
+  recordEvent('promotion', {
+    sandboxIds: [canary.sandbox.id, ...(replaces ? [replaces.id] : [])],
+    reason: 'canary-complete',
+    durationMs: now - Date.parse(canary.startedAt),
+    region: canary.sandbox.region,
+  });
+  notifyPromotion(canary.sandbox, replaces, 'canary-complete');
+  await promoteSandbox(pool, state.draining, previousPrimary);
+}
+
+function notifyPromotion(promoted: SandboxRecord, replaces: SandboxRecord | undefined, reason: string) {
+  notify('promotion', {
+    severity: 'info',
+    title: 'Sandbox promoted',
+    text: `${promoted.id} now serves traffic${replaces ? ` in place of ${replaces.id}` : ''} (${reason}).`,
+    sandboxIds: [promoted.id, ...(replaces ? [replaces.id] : [])],
+    region: promoted.region,
+    detail: { reason, url: promoted.url },
+    dedupeKey: promoted.id,
+  });
+}
+
+type PlannedReplacement = {
+  reason: string;
+  replaces?: SandboxRecord;
+  region?: string;
+};
+
+function planReplacements(
+  members: SandboxRecord[],
+  failed: { sandbox: SandboxRecord; reason: string }[],
+  options: { forceProvision: boolean; targetSize: number; now: number; canaryActive: boolean; rotationHeld: boolean },
+): PlannedReplacement[] {
+  const { forceProvision, targetSize, now, canaryActive, rotationHeld } = options;
+  const planned: PlannedReplacement[] = [];
+  const expired = oldestFirst(members).filter(
+    member => now - new Date(member.createdAt).getTime() >= ROTATION_INTERVAL_MS,
+  );
+
+  if (forceProvision) {
+    const replaces = expired.shift() ?? (members.length >= targetSize ? oldestFirst(members)[0] : undefined);
+    planned.push({ reason: 'force-provision-request', replaces });
+  }
+
+  // A running canary already is the rotation in progress, and a rollback holds rotation
+  // so the restored sandbox is not rotated straight back out; either way, rotations wait.
+  for (const member of canaryActive || rotationHeld ? [] : expired) {
+    if (!planned.some(entry => entry.replaces?.id === member.id)) {
+      planned.push({ reason: 'rotation-due', replaces: member });
+    }
+  }
+
+  const additions = planned.filter(entry => !entry.replaces).length;
+  const deficit = targetSize - members.length - additions;
+  for (let index = 0; index < deficit; index += 1) {
+    const reason = failed[index]?.reason ?? (members.length === 0 ? 'no-active-sandbox' : 'pool-below-capacity');
+    planned.push({ reason });
+  }
+
+  return planned;
+}
+
+function retireMembers(state: SandboxState, sandboxes: SandboxRecord[], { rolledBack = false } = {}) {
+  const drainStartedAt = new Date().toISOString();
+  for (const sandbox of sandboxes) {
+    state.draining.push({ ...sandbox, drainStartedAt, ...(rolledBack ? { rolledBack } : {}) });
+  }
+  if (sandboxes.length > 0) {
+    incrementCounter('sandbox_drains_total', {}, sandboxes.length);
+  }
+}
+
+function setPool(state: SandboxState, pool: SandboxRecord[]) {
+  state.pool = pool;
+  state.active = pool[0];
+
+  if (SANDBOX_REGIONS.length > 0) {
+    const activeByRegion: Record<string, SandboxRecord> = {};
+    for (const member of pool) {
+      const region = regionOf(member);
+      if (region && !activeByRegion[region]) {
+        activeByRegion[region] = member;
       }
     }
-    nextState.draining = survivors;
+    state.activeByRegion = activeByRegion;
+  } else {
+    delete state.activeByRegion;
   }
+}
 
-  return nextState;
+/** Health failures carry free-text reasons; the metric label keeps to a fixed set. */
+function rotationReason(reason: string): string {
+  return ['rotation-due', 'force-provision-request', 'no-active-sandbox', 'pool-below-capacity'].includes(reason)
+    ? reason
+    : 'health-failure';
+}
+
+/** Sandboxes from before regions were configured count towards the first region. */
+function regionOf(sandbox: SandboxRecord): string | undefined {
+  if (SANDBOX_REGIONS.length === 0) {
+    return undefined;
+  }
+  return sandbox.region ?? SANDBOX_REGIONS[0];
+}
+
+function oldestFirst(sandboxes: SandboxRecord[]): SandboxRecord[] {
+  return [...sandboxes].sort((left, right) => new Date(left.createdAt).getTime() - new Date(right.createdAt).getTime());
 }
 
 async function checkSandboxHealth(sandbox: SandboxRecord, role: 'active' | 'candidate'): Promise<SandboxHealth> {
+  const attributes = { 'sandbox.id': sandbox.id, 'sandbox.url': sandbox.url, 'sandbox.health.role': role };
+  return withSpan('sandbox.health-check', { attributes }, async span => {
+    const health = await probeSandboxHealth(sandbox, role);
+    span.setAttributes({ 'sandbox.health.healthy': health.healthy, 'sandbox.health.latency_ms': health.latencyMs });
+    observeHistogram(
+      'sandbox_health_check_duration_seconds',
+      { role, outcome: health.healthy ? 'healthy' : 'unhealthy' },
+      health.latencyMs / 1000,
+    );
+    if (!health.healthy) {
+      markSpanFailed(span, health.reason);
+    }
+    return health;
+  });
+}
+
+async function probeSandboxHealth(sandbox: SandboxRecord, role: 'active' | 'candidate'): Promise<SandboxHealth> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
   const url = `${sandbox.url}${HEALTH_ENDPOINT}`;
+  const startedAt = Date.now();
 
   try {
     const response = await fetch(url, {
       method: 'GET',
       headers: {
+        // Signed so the sandbox includes the check detail the score is computed from.
+        ...(await optionalInternalAuthHeaders('GET', url)),
         'user-agent': 'sandbox-watchdog/1.0',
         'x-sandbox-bypass': 'true',
       },
@@ -221,21 +802,34 @@ async function checkSandboxHealth(sandbox: SandboxRecord, role: 'active' | 'cand
     });
 
     clearTimeout(timeout);
+    const latencyMs = Date.now() - startedAt;
 
     if (!response.ok) {
-      return { healthy: false, reason: `health-status-${response.status}` };
+      return { healthy: false, reason: `health-status-${response.status}`, latencyMs };
     }
 
     const payload = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+    const evaluation = evaluateHealth(payload, SANDBOX_HEALTH_THRESHOLDS);
+    const failing = evaluation.verdicts.filter(verdict => !verdict.passed);
+
+    if (!evaluation.passed) {
+      // The sandbox answers but its sub-checks score too low; treat it like a failed check so it gets rotated.
+      log('sandbox.health.low-score', { sandbox, role, score: evaluation.score, failing }, 'warn');
+      return {
+        healthy: false,
+        reason: `health-score-${evaluation.score}: ${failing.map(verdict => verdict.check).join(',')}`,
+        latencyMs,
+      };
+    }
 
-    log('sandbox.health.ok', { sandbox, role, payload });
+    log('sandbox.health.ok', { sandbox, role, latencyMs, score: evaluation.score, failing, payload });
 
-    return { healthy: true, payload };
+    return { healthy: true, payload, latencyMs };
   } catch (error) {
     clearTimeout(timeout);
     const reason = error instanceof Error ? error.message : 'unknown-error';
     log('sandbox.health.error', { sandbox, role, reason }, 'warn');
-    return { healthy: false, reason };
+    return { healthy: false, reason, latencyMs: Date.now() - startedAt };
   }
 }
 
@@ -244,7 +838,7 @@ async function pingKeepalive(baseUrl: string) {
   try {
     await fetch(url, {
       headers: {
-        'x-keepalive-token': SANDBOX_KEEPALIVE_TOKEN,
+        ...(await signInternalRequest('GET', url)),
         'user-agent': 'sandbox-keepalive/1.0',
       },
     });
@@ -253,340 +847,317 @@ async function pingKeepalive(baseUrl: string) {
   }
 }
 
-async function provisionSandbox(reason: string): Promise<SandboxRecord> {
-  const attempt = async (): Promise<SandboxRecord> => {
-    log('sandbox.provision.create.start', { reason });
-    const sandbox = await Sandbox.create({
-      ports: [SANDBOX_START_PORT_NUMBER],
-      runtime: 'node22',
-      timeout: ROTATION_INTERVAL_MS,
-      ...(SANDBOX_CREDENTIALS ?? {}),
+async function provisionSandbox(reason: string, region?: string): Promise<SandboxRecord> {
+  const attributes = { 'sandbox.provision.reason': reason, 'sandbox.region': region ?? 'default' };
+  const attempt = () =>
+    withSpan('sandbox.provision', { attributes }, async span => {
+      const startedAt = Date.now();
+      try {
+        const record = await provisionAttempt(span, reason, region);
+        observeHistogram('sandbox_provision_duration_seconds', { outcome: 'succeeded' }, (Date.now() - startedAt) / 1000);
+        return record;
+      } catch (error) {
+        observeHistogram('sandbox_provision_duration_seconds', { outcome: 'failed' }, (Date.now() - startedAt) / 1000);
+        throw error;
+      }
     });
 
-    const url = sandbox.domain(SANDBOX_START_PORT_NUMBER);
-    const runtimeEnv: Record<string, string> = {
-      PORT: SANDBOX_START_PORT,
-      KEEPALIVE_TOKEN: SANDBOX_KEEPALIVE_TOKEN,
-      SANDBOX_APP_REPO,
-      SANDBOX_APP_REF,
-      SANDBOX_SELF_URL: url,
-    };
-    const buildEnv: Record<string, string> = {
-      NEXT_APP_SKIP_MONITORING_ROUTES: 'true',
-    };
-    runtimeEnv.NEXT_APP_SKIP_MONITORING_ROUTES = 'true';
-
-    try {
-      log('sandbox.bootstrap.env', {
-        sandboxId: sandbox.sandboxId,
-        repoUrl: SANDBOX_APP_REPO,
-        gitRef: SANDBOX_APP_REF,
-        workdir: SANDBOX_WORKDIR,
-      });
-
-      await runSandboxCommand(sandbox, 'prepare-workdir', {
-        cmd: 'rm',
-        args: ['-rf', SANDBOX_WORKDIR],
-      });
-
-      await runSandboxCommand(sandbox, 'create-workdir', {
-        cmd: 'mkdir',
-        args: ['-p', SANDBOX_WORKDIR],
-      });
-
-      await runSandboxCommand(sandbox, 'git-clone', {
-        cmd: 'git',
-        args: ['clone', '--branch', SANDBOX_APP_REF, '--single-branch', '--depth', '1', SANDBOX_APP_REPO, SANDBOX_WORKDIR],
-      });
-
-      await runSandboxCommand(sandbox, 'corepack-enable', {
-        cmd: 'corepack',
-        args: ['enable'],
-        sudo: true,
-      });
-
-      await runSandboxCommand(sandbox, 'pnpm-install', {
-        cmd: 'pnpm',
-        args: ['install', '--no-frozen-lockfile'],
-        cwd: SANDBOX_WORKDIR,
-      });
-
-      await runSandboxCommand(sandbox, 'pnpm-build', {
-        cmd: 'pnpm',
-        args: ['--filter', 'next-app', 'build'],
-        cwd: SANDBOX_WORKDIR,
-        env: buildEnv,
-      });
-
-      runtimeEnv.NODE_ENV = runtimeEnv.NODE_ENV ?? 'production';
-      runtimeEnv.PORT = SANDBOX_START_PORT;
-
-      await runSandboxCommand(sandbox, 'pnpm-start', {
-        cmd: 'pnpm',
-        args: ['--filter', 'next-app', 'start'],
-        cwd: SANDBOX_WORKDIR,
-        env: runtimeEnv,
-        detached: true,
-      });
-    } catch (error) {
-      const errorMessage = describeError(error);
-      log('sandbox.bootstrap.error', { sandboxId: sandbox.sandboxId, error: errorMessage }, 'error');
-
-      await sandbox.stop().catch(stopError => {
-        log('sandbox.bootstrap.stop-error', { sandboxId: sandbox.sandboxId, error: describeError(stopError) }, 'warn');
-      });
-
-      throw error instanceof Error ? error : new Error(errorMessage);
-    }
-
-    log('sandbox.bootstrap.started', { sandboxId: sandbox.sandboxId, reason });
-
-    return {
-      id: sandbox.sandboxId,
-      url,
-      createdAt: new Date().toISOString(),
-      status: 'provisioning',
-    };
-  };
-
   return pRetry(attempt, {
     retries: 4,
     factor: 2,
     minTimeout: 2_000,
     onFailedAttempt: error => {
+      if (error.retriesLeft > 0) {
+        incrementCounter('sandbox_provision_retries_total');
+      }
       log('sandbox.provision.retry', { attemptNumber: error.attemptNumber, retriesLeft: error.retriesLeft, reason }, 'warn');
     },
   });
 }
 
-async function waitForSandboxReadiness(sandbox: SandboxRecord) {
-  const deadline = Date.now() + 10 * 60 * 1000; // 10 minutes max
-
-  while (Date.now() < deadline) {
-    const health = await checkSandboxHealth(sandbox, 'candidate');
-    if (health.healthy) {
-      return;
+async function provisionAttempt(span: Span, reason: string, region?: string): Promise<SandboxRecord> {
+  log('sandbox.provision.create.start', { reason, region });
+  const sandbox = await getSandboxProvider().create({
+    port: SANDBOX_START_PORT_NUMBER,
+    timeoutMs: ROTATION_INTERVAL_MS,
+    workdir: SANDBOX_WORKDIR,
+    region,
+  });
+  span.setAttribute('sandbox.id', sandbox.id);
+
+  const port = String(sandbox.port);
+  const workdir = sandbox.workdir;
+  const url = sandbox.domain(sandbox.port);
+  const runtimeEnv: Record<string, string> = {
+    PORT: port,
+    KEEPALIVE_TOKEN: SANDBOX_KEEPALIVE_TOKEN,
+    SANDBOX_APP_REPO,
+    SANDBOX_APP_REF,
+    SANDBOX_SELF_URL: url,
+    SANDBOX_ID: sandbox.id,
+  };
+  // Sandboxes verify the watchdog's signed requests with the same keys.
+  Object.assign(runtimeEnv, internalAuthEnv());
+  for (const name of FORWARDED_TELEMETRY_ENV) {
+    const value = process.env[name];
+    if (value) {
+      runtimeEnv[name] = value;
     }
-    await delay(5_000);
+  }
+  const buildEnv: Record<string, string> = {
+    NEXT_APP_SKIP_MONITORING_ROUTES: 'true',
+  };
+  runtimeEnv.NEXT_APP_SKIP_MONITORING_ROUTES = 'true';
+  runtimeEnv.NODE_ENV = 'production';
+  const provisionLog = startProvisionLog(sandbox.id, { reason, region });
+
+  try {
+    log('sandbox.bootstrap.env', {
+      sandboxId: sandbox.id,
+      repoUrl: SANDBOX_APP_REPO,
+      gitRef: SANDBOX_APP_REF,
+      workdir,
+    });
+
+    await runBootstrapPipeline(sandbox, SANDBOX_BOOTSTRAP_PIPELINE, {
+      workdir,
+      port,
+      repo: SANDBOX_APP_REPO,
+      ref: SANDBOX_APP_REF,
+      buildEnv,
+      runtimeEnv,
+    });
+  } catch (error) {
+    const errorMessage = describeError(error);
+    log('sandbox.bootstrap.error', { sandboxId: sandbox.id, error: errorMessage }, 'error');
+    await provisionLog.finish('failed', errorMessage);
+
+    // Should the stop fail, the next tick finds the sandbox untracked and stops it then.
+    await sandbox.stop().catch(stopError => {
+      log('sandbox.bootstrap.stop-error', { sandboxId: sandbox.id, error: describeError(stopError) }, 'warn');
+    });
+
+    throw error instanceof Error ? error : new Error(errorMessage);
   }
 
-  throw new Error(`sandbox ${sandbox.id} failed to become healthy in time`);
+  log('sandbox.bootstrap.started', { sandboxId: sandbox.id, reason });
+  await provisionLog.finish('succeeded');
+
+  return {
+    id: sandbox.id,
+    url,
+    createdAt: new Date().toISOString(),
+    status: 'provisioning',
+    ...(sandbox.region ? { region: sandbox.region } : {}),
+  };
 }
 
-async function promoteSandbox(fresh: SandboxRecord, previous?: SandboxRecord) {
-  const items: EdgeConfigOperation[] = [
+async function waitForSandboxReadiness(sandbox: SandboxRecord) {
+  await withSpan('sandbox.readiness', { attributes: { 'sandbox.id': sandbox.id, 'sandbox.url': sandbox.url } }, async span => {
+    const deadline = Date.now() + 10 * 60 * 1000; // 10 minutes max
+    let attempts = 0;
+
+    while (Date.now() < deadline) {
+      attempts += 1;
+      const health = await checkSandboxHealth(sandbox, 'candidate');
+      span.setAttribute('sandbox.readiness.attempts', attempts);
+      if (health.healthy) {
+        return;
+      }
+      await delay(5_000);
+    }
+
+    throw new Error(`sandbox ${sandbox.id} failed to become healthy in time`);
+  });
+}
+
+async function promoteSandbox(
+  pool: SandboxRecord[],
+  draining: DrainingSandboxRecord[],
+  previous?: SandboxRecord,
+  canary?: CanaryRecord | null,
+) {
+  const [primary] = pool;
+  const items: StateStoreOperation[] = [
     {
       operation: 'upsert',
-      key: EDGE_CONFIG_KEYS.active,
-      value: fresh.url,
+      key: STATE_KEYS.active,
+      value: primary.url,
     },
     {
       operation: 'upsert',
-      key: EDGE_CONFIG_KEYS.lastKnownGood,
-      value: fresh.url,
+      key: STATE_KEYS.lastKnownGood,
+      value: primary.url,
     },
+    routingTableOperation(pool, draining, canary),
   ];
 
-  if (previous?.url) {
+  if (previous?.url && previous.id !== primary.id) {
     items.push({
       operation: 'upsert',
-      key: EDGE_CONFIG_KEYS.previous,
+      key: STATE_KEYS.previous,
       value: previous.url,
     });
   }
 
-  await updateEdgeConfig(items);
-  log('sandbox.promote', { fresh, previous });
+  await getStateStore().update(items);
+  log('sandbox.promote', { fresh: primary, previous, pool: pool.map(sandbox => sandbox.id) });
 }
 
-async function decommissionSandbox(sandbox: DrainingSandboxRecord, ageMs: number) {
-  log('sandbox.decommission.start', { sandbox, ageMs });
-
-  try {
-    const instance = await Sandbox.get({
-      sandboxId: sandbox.id,
-      ...(SANDBOX_CREDENTIALS ?? {}),
-    });
-
-    await instance.stop();
-    log('sandbox.decommission.success', { sandbox });
-  } catch (error) {
-    if (isSandboxNotFound(error)) {
-      log('sandbox.decommission.not-found', { sandboxId: sandbox.id }, 'warn');
-      return;
-    }
-
-    log('sandbox.decommission.error', { sandbox, error: describeError(error) }, 'error');
-  }
+async function publishRouting(pool: SandboxRecord[], draining: DrainingSandboxRecord[], canary?: CanaryRecord | null) {
+  await getStateStore().update([routingTableOperation(pool, draining, canary)]);
+  log('sandbox.routing.publish', {
+    pool: pool.map(sandbox => sandbox.id),
+    canary: canary ? { id: canary.sandbox.id, percent: canaryPercent(canary) } : null,
+  });
 }
 
-async function loadState(): Promise<SandboxState> {
-  const state = await get<SandboxState>(EDGE_CONFIG_KEYS.state);
-  if (state) {
-    return cloneState(state);
-  }
-
-  const legacyState = await get<SandboxState>(LEGACY_EDGE_CONFIG_KEYS.state);
-  if (legacyState) {
-    log('edge-config.legacy-key.detected', { key: LEGACY_EDGE_CONFIG_KEYS.state }, 'warn');
-    return cloneState(legacyState);
+function routingTableOperation(
+  pool: SandboxRecord[],
+  draining: DrainingSandboxRecord[],
+  canary?: CanaryRecord | null,
+): StateStoreOperation {
+  const stable = pool.map(sandbox => ({
+    id: sandbox.id,
+    url: sandbox.url,
+    weight: DEFAULT_TARGET_WEIGHT,
+    ...(sandbox.region ? { region: sandbox.region } : {}),
+  }));
+  let targets = stable;
+  const peers = canary ? stable.filter(target => target.region === canary.sandbox.region) : [];
+
+  if (canary && peers.length > 0) {
+    // Weights are relative within a region, so the split only involves the canary's
+    // regional peers. The canary goes first so a client's stable roll keeps landing
+    // on it as its share grows.
+    const percent = canaryPercent(canary);
+    const peerWeight = (DEFAULT_TARGET_WEIGHT * (100 - percent)) / 100 / peers.length;
+    targets = [
+      {
+        id: canary.sandbox.id,
+        url: canary.sandbox.url,
+        weight: (DEFAULT_TARGET_WEIGHT * percent) / 100,
+        ...(canary.sandbox.region ? { region: canary.sandbox.region } : {}),
+      },
+      ...stable.map(target => (peers.includes(target) ? { ...target, weight: peerWeight } : target)),
+    ];
   }
 
-  return cloneState(DEFAULT_STATE);
-}
+  const table: RoutingTable = {
+    updatedAt: new Date().toISOString(),
+    targets,
+    // Members retired for failing health checks or displaced by a rollback are left out:
+    // pinned clients are better off moved.
+    draining: draining
+      .filter(sandbox => sandbox.status !== 'unhealthy' && !sandbox.rolledBack && !sandbox.stopFailedAt)
+      .map(sandbox => ({ id: sandbox.id, url: sandbox.url, ...(sandbox.region ? { region: sandbox.region } : {}) })),
+  };
 
-async function persistState(state: SandboxState) {
-  await updateEdgeConfig([
-    {
-      operation: 'upsert',
-      key: EDGE_CONFIG_KEYS.state,
-      value: state,
-    },
-  ]);
+  return { operation: 'upsert', key: STATE_KEYS.targets, value: table };
 }
 
-type SandboxCommandOptions = {
-  cmd: string;
-  args?: string[];
-  cwd?: string;
-  env?: Record<string, string>;
-  sudo?: boolean;
-  detached?: boolean;
-};
-
-async function runSandboxCommand(sandbox: Sandbox, step: string, options: SandboxCommandOptions) {
-  const stdout = new PassThrough();
-  const stderr = new PassThrough();
-
-  stdout.setEncoding('utf8');
-  stderr.setEncoding('utf8');
-
-  const forwardChunk = (stream: 'stdout' | 'stderr') => (chunk: string) => {
-    const lines = chunk.split(/\r?\n/).filter(line => line.trim().length > 0);
-    for (const line of lines) {
-      log(
-        stream === 'stdout' ? 'sandbox.command.stdout' : 'sandbox.command.stderr',
-        { sandboxId: sandbox.sandboxId, step, message: line },
-        stream === 'stdout' ? 'info' : 'warn',
-      );
-    }
+/** `false` when the stop failed and the sandbox may still be running. */
+async function decommissionSandbox(sandbox: DrainingSandboxRecord, ageMs: number, trigger: string): Promise<boolean> {
+  const attributes = {
+    'sandbox.id': sandbox.id,
+    'sandbox.region': sandbox.region ?? 'default',
+    'sandbox.age_ms': ageMs,
+    'sandbox.decommission.trigger': trigger,
   };
+  return withSpan('sandbox.decommission', { attributes }, async span => {
+    log('sandbox.decommission.start', { sandbox, ageMs, trigger });
 
-  stdout.on('data', forwardChunk('stdout'));
-  stderr.on('data', forwardChunk('stderr'));
-
-  log('sandbox.command.start', {
-    sandboxId: sandbox.sandboxId,
-    step,
-    cmd: options.cmd,
-    args: options.args,
-    cwd: options.cwd,
-    detached: options.detached ?? false,
-  });
-
-  const result = await sandbox.runCommand({
-    cmd: options.cmd,
-    args: options.args,
-    cwd: options.cwd,
-    env: options.env,
-    sudo: options.sudo,
-    detached: options.detached,
-    stdout,
-    stderr,
-  });
-
-  if (options.detached) {
-    // Detached commands keep running; exit code is not yet known.
-    log('sandbox.command.detached', {
-      sandboxId: sandbox.sandboxId,
-      step,
-      commandId: 'wait' in result ? result.cmdId : undefined,
-    });
-    return result;
-  }
-
-  const finished = result as { exitCode: number | null; signal?: string | null };
-  const exitCode = finished.exitCode ?? null;
-
-  log('sandbox.command.complete', {
-    sandboxId: sandbox.sandboxId,
-    step,
-    exitCode,
-    signal: 'signal' in finished ? finished.signal ?? null : null,
-  });
-
-  if (exitCode !== 0) {
-    throw new Error(`Sandbox command "${step}" failed with exit code ${exitCode}`);
-  }
-
-  return result;
-}
+    try {
+      const result = await getSandboxProvider().stop(sandbox.id);
+      span.setAttribute('sandbox.decommission.result', result);
+      incrementCounter('sandbox_decommissions_total', { result });
+      recordEvent('decommission', {
+        sandboxIds: [sandbox.id],
+        reason: result,
+        durationMs: ageMs,
+        region: sandbox.region,
+        detail: { trigger },
+      });
+      if (result === 'not-found') {
+        log('sandbox.decommission.not-found', { sandboxId: sandbox.id }, 'warn');
+        return true;
+      }
 
-type EdgeConfigOperation =
-  | {
-      operation: 'upsert';
-      key: string;
-      value: unknown;
+      log('sandbox.decommission.success', { sandbox });
+      return true;
+    } catch (error) {
+      markSpanFailed(span, describeError(error));
+      incrementCounter('sandbox_decommissions_total', { result: 'error' });
+      log('sandbox.decommission.error', { sandbox, error: describeError(error) }, 'error');
+      recordEvent('decommission', {
+        sandboxIds: [sandbox.id],
+        reason: `error: ${describeError(error)}`,
+        durationMs: ageMs,
+        region: sandbox.region,
+        detail: { trigger },
+      });
+      notify('decommission.failed', {
+        severity: 'warning',
+        title: 'Sandbox decommission failed',
+        text: `Could not stop drained sandbox ${sandbox.id}; it may still be running: ${describeError(error)}`,
+        sandboxIds: [sandbox.id],
+        region: sandbox.region,
+        detail: { ageMs, trigger },
+        dedupeKey: sandbox.id,
+      });
+      return false;
     }
-  | {
-      operation: 'delete';
-      key: string;
-    };
-
-async function updateEdgeConfig(operations: EdgeConfigOperation[]) {
-  const response = await fetch(`https://api.vercel.com/v1/edge-config/${EDGE_CONFIG_ID}/items`, {
-    method: 'PATCH',
-    headers: {
-      Authorization: `Bearer ${EDGE_CONFIG_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ items: operations }),
   });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`edge-config-update-failed: ${response.status} ${error}`);
-  }
 }
 
-function parsePort(value: string): number {
-  const parsed = Number.parseInt(value, 10);
-  if (!Number.isInteger(parsed) || parsed <= 0) {
-    throw new Error(`Invalid SANDBOX_PORT value "${value}"`);
+/**
+ * Best-effort stop of a sandbox the state does not track, e.g. one that never
+ * became ready. A failure is only logged: the next tick finds the sandbox among
+ * the untracked ones and tries again.
+ */
+async function stopUntrackedSandbox(sandboxId: string, trigger: string) {
+  try {
+    const result = await getSandboxProvider().stop(sandboxId);
+    log('sandbox.untracked.stopped', { sandboxId, trigger, result });
+    recordEvent('decommission', { sandboxIds: [sandboxId], reason: result, detail: { trigger } });
+  } catch (error) {
+    log('sandbox.untracked.stop-error', { sandboxId, trigger, error: describeError(error) }, 'warn');
   }
-  return parsed;
 }
 
-function getSandboxCredentials(): SandboxCredentials | undefined {
-  const token = process.env.VERCEL_TOKEN ?? process.env.VERCEL_API_TOKEN;
-  const teamId = process.env.VERCEL_TEAM_ID ?? process.env.VERCEL_ORG_ID;
-  const projectId = process.env.VERCEL_PROJECT_ID;
-
-  if (token && teamId && projectId) {
-    return { token, teamId, projectId };
+async function loadState(): Promise<SandboxState> {
+  const stored = await readSandboxState(getStateStore());
+  if (!stored) {
+    return cloneState(DEFAULT_STATE);
   }
 
-  return undefined;
-}
+  if (stored.legacy) {
+    log('state-store.legacy-key.detected', { key: stored.key, store: getStateStore().kind }, 'warn');
+  }
 
-function isSandboxNotFound(error: unknown): boolean {
-  const response = typeof error === 'object' && error !== null && 'response' in error ? (error as { response?: { status?: number } }).response : undefined;
-  return typeof response?.status === 'number' && response.status === 404;
+  return cloneState(stored.value);
 }
 
-function describeError(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-
-  if (typeof error === 'string') {
-    return error;
-  }
+async function persistState(state: SandboxState) {
+  const store = getStateStore();
+  await store.update([
+    {
+      operation: 'upsert',
+      key: STATE_KEYS.state,
+      value: state,
+    },
+  ]);
 
+  // The event history follows in an update of its own: it is the bulk of what gets written,
+  // and a store that rejects it (e.g. Edge Config at its size limit) must not cost the state.
+  // Metrics are saved when the lease is released.
   try {
-    return JSON.stringify(error);
-  } catch {
-    return String(error);
+    const events = await takePendingEventsOperation(store);
+    if (events) {
+      await store.update([events]);
+    }
+  } catch (error) {
+    log('sandbox.events.write-error', { store: store.kind, error: describeError(error) }, 'error');
   }
 }
 
@@ -595,62 +1166,20 @@ function cloneState<T>(value: T): T {
 }
 
 async function listRunningSandboxes(): Promise<RemoteSandboxSummary[]> {
-  if (!SANDBOX_CREDENTIALS) {
-    log('sandbox.list.skip', { reason: 'missing-credentials' }, 'warn');
-    return [];
-  }
-
   try {
-    const { json } = await Sandbox.list({
-      projectId: SANDBOX_CREDENTIALS.projectId,
-      teamId: SANDBOX_CREDENTIALS.teamId,
-      token: SANDBOX_CREDENTIALS.token,
-      limit: 20,
-    });
+    const sandboxes = await getSandboxProvider().list();
+    if (!sandboxes) {
+      log('sandbox.list.skip', { reason: 'missing-credentials' }, 'warn');
+      return [];
+    }
 
-    return json.sandboxes
-      .filter(sandbox => RUNNING_SANDBOX_STATUSES.has(sandbox.status))
-      .map(sandbox => ({
-        id: sandbox.id,
-        status: sandbox.status,
-        region: sandbox.region,
-        createdAt: sandbox.createdAt,
-      }));
+    return sandboxes;
   } catch (error) {
     log('sandbox.list.error', { error: describeError(error) }, 'warn');
     return [];
   }
 }
 
-type LogPayload =
-  | Record<string, unknown>
-  | string
-  | number
-  | boolean
-  | null
-  | undefined
-  | Error
-  | unknown[];
-
-function log(event: string, payload: LogPayload = undefined, level: 'info' | 'warn' | 'error' = 'info') {
-  const timestamp = new Date().toISOString();
-  const prefix = `[${timestamp}] ${level.toUpperCase()} ${event}`;
-  const suffix = formatLogPayload(payload);
-  const message = suffix ? `${prefix} ${suffix}` : prefix;
-
-  if (level === 'error') {
-    console.error(message);
-    return;
-  }
-
-  if (level === 'warn') {
-    console.warn(message);
-    return;
-  }
-
-  console.log(message);
-}
-
 function env(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -666,70 +1195,3 @@ function env(name: string): string {
 async function delay(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
-
-function formatLogPayload(payload: LogPayload): string {
-  if (payload === undefined || payload === null) {
-    return '';
-  }
-
-  if (typeof payload === 'string') {
-    return payload;
-  }
-
-  if (typeof payload === 'number' || typeof payload === 'boolean') {
-    return String(payload);
-  }
-
-  if (payload instanceof Error) {
-    return JSON.stringify({ message: payload.message, stack: payload.stack });
-  }
-
-  if (Array.isArray(payload)) {
-    return JSON.stringify(payload);
-  }
-
-  if (typeof payload === 'object') {
-    const entries = Object.entries(payload as Record<string, unknown>);
-    if (entries.length === 0) {
-      return '';
-    }
-
-    return entries
-      .map(([key, value]) => `${key}=${formatLogValue(value)}`)
-      .join(' ');
-  }
-
-  return String(payload);
-}
-
-function formatLogValue(value: unknown): string {
-  if (value === null) {
-    return 'null';
-  }
-
-  if (value === undefined) {
-    return 'undefined';
-  }
-
-  if (typeof value === 'string') {
-    return value.includes(' ') ? JSON.stringify(value) : value;
-  }
-
-  if (typeof value === 'number' || typeof value === 'boolean') {
-    return String(value);
-  }
-
-  if (value instanceof Error) {
-    return JSON.stringify({ message: value.message, stack: value.stack });
-  }
-
-  if (Array.isArray(value) || typeof value === 'object') {
-    try {
-      return JSON.stringify(value);
-    } catch {
-      return '[unserializable]';
-    }
-  }
-
-  return String(value);
-}
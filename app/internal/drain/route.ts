@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { authorizeInternalRequest } from '../../api/_lib/internalAuth';
+import { requestActivity, startDraining, stopDraining } from '../../api/_lib/requestActivity';
+
+export const dynamic = 'force-dynamic';
+
+/** In-flight requests and last activity, without changing the drain state. */
+export async function GET(request: Request) {
+  return (await authorizeInternalRequest(request)) ?? NextResponse.json(report());
+}
+
+/** Puts the app into draining mode; the watchdog polls this until the sandbox is idle. */
+export async function POST(request: Request) {
+  const rejection = await authorizeInternalRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  startDraining();
+  return NextResponse.json(report());
+}
+
+/** Leaves draining mode, for a sandbox a rollback returns to service. */
+export async function DELETE(request: Request) {
+  const rejection = await authorizeInternalRequest(request);
+  if (rejection) {
+    return rejection;
+  }
+
+  stopDraining();
+  return NextResponse.json(report());
+}
+
+function report() {
+  return { status: 'ok', ...requestActivity(), timestamp: new Date().toISOString() };
+}
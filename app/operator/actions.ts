@@ -0,0 +1,63 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { isAdminAuthorized, type AdminScope } from '../api/_lib/adminAuth';
+import { disableMaintenanceMode, enableMaintenanceMode, parseMaintenanceInput } from '../api/_lib/maintenance';
+import { getStateStore } from '../api/_lib/stateStore';
+import watchdogHandler, { rollback } from '../api/watchdog/watchdog';
+
+export async function forceProvisionAction() {
+  await requireOperator('provision', 'force-provision');
+  const response = await watchdogHandler({ forceProvision: true });
+  redirect(await resultLocation('force-provision', response));
+}
+
+export async function rollbackAction(formData: FormData) {
+  await requireOperator('rollback', 'rollback');
+  const sandboxId = formData.get('sandboxId');
+  const response = await rollback({ sandboxId: typeof sandboxId === 'string' && sandboxId ? sandboxId : undefined });
+  redirect(await resultLocation('rollback', response));
+}
+
+export async function enableMaintenanceAction(formData: FormData) {
+  await requireOperator('pause', 'enable-maintenance');
+  const minutes = Number(formData.get('minutes') || 0);
+  const until = minutes > 0 ? new Date(Date.now() + minutes * 60_000).toISOString() : undefined;
+  const input = parseMaintenanceInput(formData.get('message'), until);
+  if ('error' in input) {
+    redirect(`/operator?${new URLSearchParams({ action: 'maintenance', code: '400', outcome: input.error })}`);
+  }
+  await enableMaintenanceMode(getStateStore(), input);
+  redirect(`/operator?${new URLSearchParams({ action: 'maintenance', code: '200', outcome: 'enabled' })}`);
+}
+
+export async function disableMaintenanceAction() {
+  await requireOperator('pause', 'disable-maintenance');
+  const wasEnabled = await disableMaintenanceMode(getStateStore());
+  const outcome = wasEnabled ? 'disabled' : 'already-off';
+  redirect(`/operator?${new URLSearchParams({ action: 'maintenance', code: '200', outcome })}`);
+}
+
+// Middleware already guards /operator; actions check again because they are reachable by POST on their own.
+async function requireOperator(scope: AdminScope, action: string) {
+  if (!(await isAdminAuthorized(await headers(), scope, action))) {
+    throw new Error('Operator credentials required');
+  }
+}
+
+async function resultLocation(action: string, response: Response): Promise<string> {
+  const body = await response.text();
+  let outcome = body.slice(0, 120);
+  try {
+    const parsed = JSON.parse(body) as { status?: unknown };
+    if (typeof parsed.status === 'string') {
+      outcome = parsed.status;
+    }
+  } catch {
+    // Plain-text watchdog responses are shown as-is.
+  }
+
+  const params = new URLSearchParams({ action, code: String(response.status), outcome });
+  return `/operator?${params}`;
+}
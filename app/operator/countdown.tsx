@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDuration } from './format';
+
+export function Countdown({ until }: { until: string }): JSX.Element {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingMs = new Date(until).getTime() - now;
+
+  // Server and client clocks differ by the render delay, so the first paint may disagree by a second.
+  return <span suppressHydrationWarning>{remainingMs > 0 ? formatDuration(remainingMs) : 'due now'}</span>;
+}
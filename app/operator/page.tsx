@@ -0,0 +1,244 @@
+import { headers } from 'next/headers';
+import { notFound } from 'next/navigation';
+import { isAdminAuthorized } from '../api/_lib/adminAuth';
+import { readMaintenanceMode } from '../api/_lib/maintenance';
+import { monitoringRoutesDisabled } from '../api/_lib/monitoringToggle';
+import { resolvePool, type HealthSample } from '../api/_lib/sandboxState';
+import { getStateStore } from '../api/_lib/stateStore';
+import { queryEvents, type WatchdogEvent } from '../api/watchdog/eventHistory';
+import { fleetOverview } from '../api/watchdog/watchdog';
+import { disableMaintenanceAction, enableMaintenanceAction, forceProvisionAction, rollbackAction } from './actions';
+import { Countdown } from './countdown';
+import { formatDuration } from './format';
+
+export const dynamic = 'force-dynamic';
+
+const RECENT_HEALTH_SAMPLES = 5;
+const RECENT_EVENTS = 15;
+
+type OperatorPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function OperatorPage({ searchParams }: OperatorPageProps): Promise<JSX.Element> {
+  if (monitoringRoutesDisabled()) {
+    notFound();
+  }
+
+  // Middleware asks the browser for credentials; this only catches requests that slipped past it.
+  if (!(await isAdminAuthorized(await headers(), 'status', 'operator-page'))) {
+    notFound();
+  }
+
+  const [overview, events, maintenance, params] = await Promise.all([
+    fleetOverview(),
+    queryEvents(getStateStore(), { limit: RECENT_EVENTS }),
+    readMaintenanceMode(getStateStore()),
+    searchParams,
+  ]);
+  const { state, drainDeadlines, nextRotationAt, running } = overview;
+  const pool = resolvePool(state);
+
+  return (
+    <main className="home operator">
+      <section className="hero">
+        <span className="eyebrow">Operator</span>
+        <h1>Sandbox fleet</h1>
+        {typeof params.action === 'string' ? (
+          <p className="operator-result">
+            <strong>{params.action}</strong>: {params.outcome} (HTTP {params.code})
+          </p>
+        ) : null}
+        <div className="cta-row">
+          <form action={forceProvisionAction}>
+            <button type="submit" className="button primary">
+              Force provision
+            </button>
+          </form>
+          <form action={rollbackAction}>
+            <button type="submit" className="button">
+              Roll back to previous
+            </button>
+          </form>
+        </div>
+      </section>
+
+      <section className="info-grid">
+        <article className="info-card">
+          <h2>Active</h2>
+          {pool.length === 0 ? <p className="muted">No sandbox is serving.</p> : null}
+          {pool.map(member => (
+            <div className="live-panel" key={member.id}>
+              <span className="label">
+                {member.region ?? 'default'} · {member.status}
+              </span>
+              <span className="value">{member.url}</span>
+              <p className="muted">
+                {member.id}, up since {formatTime(member.createdAt)}
+              </p>
+              <HealthSamples samples={state.healthHistory?.[member.id] ?? []} />
+            </div>
+          ))}
+          {state.canary ? (
+            <div className="live-panel">
+              <span className="label">Canary · {state.canary.steps[state.canary.stepIndex]}%</span>
+              <span className="value">{state.canary.sandbox.url}</span>
+              <p className="muted">{state.canary.sandbox.id}</p>
+            </div>
+          ) : null}
+        </article>
+
+        <article className="info-card">
+          <h2>Schedule</h2>
+          <div className="live-panel">
+            <span className="label">Next rotation</span>
+            <span className="value">
+              {nextRotationAt ? <Countdown until={nextRotationAt} /> : state.canary ? 'canary in progress' : 'on next tick'}
+            </span>
+            {state.rotationHold ? (
+              <p className="muted">
+                Held by {state.rotationHold.reason} until {formatTime(state.rotationHold.until)}
+              </p>
+            ) : null}
+          </div>
+          <div className="live-panel">
+            <span className="label">Last check</span>
+            <span className="value">{formatTime(state.lastCheckAt)}</span>
+            <p className="muted">Last rotation {formatTime(state.lastRotationAt)}</p>
+          </div>
+          <div className="live-panel">
+            <span className="label">Last failure</span>
+            <span className="value">{state.lastFailure?.reason ?? 'none'}</span>
+            {state.lastFailure ? <p className="muted">{formatTime(state.lastFailure.at)}</p> : null}
+          </div>
+        </article>
+      </section>
+
+      <section className="info-card">
+        <h2>Maintenance</h2>
+        {maintenance ? (
+          <div className="live-panel">
+            <span className="label">On since {formatTime(maintenance.startedAt)}</span>
+            <span className="value">{maintenance.message ?? 'Default maintenance page'}</span>
+            <p className="muted">Expected end {maintenance.until ? formatTime(maintenance.until) : 'not set'}</p>
+            <form action={disableMaintenanceAction}>
+              <button type="submit" className="button primary">
+                End maintenance
+              </button>
+            </form>
+          </div>
+        ) : (
+          <form action={enableMaintenanceAction} className="operator-form">
+            <p className="muted">Visitors get a 503 maintenance page; /api and /operator keep working.</p>
+            <input type="text" name="message" placeholder="Message for visitors (optional)" maxLength={500} />
+            <input type="number" name="minutes" placeholder="Expected minutes (optional)" min={1} />
+            <button type="submit" className="button">
+              Start maintenance
+            </button>
+          </form>
+        )}
+      </section>
+
+      <section className="info-card">
+        <h2>Draining</h2>
+        {state.draining.length === 0 ? <p className="muted">Nothing is draining.</p> : null}
+        <table className="operator-table">
+          <tbody>
+            {state.draining.map(sandbox => (
+              <tr key={sandbox.id}>
+                <td>
+                  <code>{sandbox.id}</code>
+                </td>
+                <td>{sandbox.region ?? 'default'}</td>
+                <td>
+                  decommission in at most <Countdown until={drainDeadlines[sandbox.id]} />
+                </td>
+                <td>
+                  {sandbox.activity
+                    ? `${sandbox.activity.inFlight} in flight, last request ${formatTime(sandbox.activity.lastActivityAt)}`
+                    : 'activity not reported'}
+                </td>
+                <td>
+                  <form action={rollbackAction}>
+                    <input type="hidden" name="sandboxId" value={sandbox.id} />
+                    <button type="submit" className="button">
+                      Roll back to this
+                    </button>
+                  </form>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="info-card">
+        <h2>Running at the provider</h2>
+        {running.length === 0 ? <p className="muted">The provider reports no running sandboxes, or cannot list them.</p> : null}
+        <table className="operator-table">
+          <tbody>
+            {running.map(sandbox => (
+              <tr key={sandbox.id}>
+                <td>
+                  <code>{sandbox.id}</code>
+                </td>
+                <td>{sandbox.region}</td>
+                <td>{sandbox.status}</td>
+                <td>{formatTime(new Date(sandbox.createdAt).toISOString())}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="info-card">
+        <h2>Recent events</h2>
+        {events.events.length === 0 ? <p className="muted">No events recorded yet.</p> : null}
+        <table className="operator-table">
+          <tbody>
+            {events.events.map(event => (
+              <EventRow event={event} key={event.id} />
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
+
+function HealthSamples({ samples }: { samples: HealthSample[] }): JSX.Element | null {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="operator-samples">
+      {samples.slice(-RECENT_HEALTH_SAMPLES).reverse().map(sample => (
+        <li key={sample.at} className={`sample-${sample.outcome}`}>
+          {formatTime(sample.at)} · {sample.outcome} · {sample.latencyMs}ms
+          {sample.reason ? ` · ${sample.reason}` : ''}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function EventRow({ event }: { event: WatchdogEvent }): JSX.Element {
+  return (
+    <tr>
+      <td>{formatTime(event.at)}</td>
+      <td>
+        <strong>{event.type}</strong>
+      </td>
+      <td>{event.sandboxIds.join(', ')}</td>
+      <td>
+        {event.reason ?? ''}
+        {event.durationMs !== undefined ? ` (${formatDuration(event.durationMs)})` : ''}
+      </td>
+    </tr>
+  );
+}
+
+function formatTime(value: string | null | undefined): string {
+  return value ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) + 'Z' : 'never';
+}
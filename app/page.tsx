@@ -1,6 +1,7 @@
 import Link from 'next/link';
 import { Suspense } from 'react';
 import { headers } from 'next/headers';
+import { optionalInternalAuthHeaders } from './api/_lib/internalAuth';
 
 const SANDBOX_HEADER = 'x-sandbox-origin';
 const STREAM_DELAY_MS = 350;
@@ -81,14 +82,14 @@ async function readSandboxTelemetry(
 
 async function fetchHealth(url: string, bypassSandbox = false): Promise<SandboxHealthPayload | null> {
   try {
+    // Signed so the health route includes the watchdog detail shown here.
     const response = await fetch(url, {
       method: 'GET',
       cache: 'no-store',
-      headers: bypassSandbox
-        ? {
-            'x-sandbox-bypass': 'true',
-          }
-        : undefined,
+      headers: {
+        ...(await optionalInternalAuthHeaders('GET', url)),
+        ...(bypassSandbox ? { 'x-sandbox-bypass': 'true' } : {}),
+      },
     });
 
     if (!response.ok) {
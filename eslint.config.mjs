@@ -0,0 +1,12 @@
+import nextCoreWebVitals from 'eslint-config-next/core-web-vitals';
+
+const config = [
+  ...nextCoreWebVitals,
+  {
+    rules: {
+      '@next/next/no-html-link-for-pages': 'off',
+    },
+  },
+];
+
+export default config;
@@ -1,21 +1,36 @@
-import { context, trace } from '@opentelemetry/api';
-
-const tracer = trace.getTracer('next-app');
+import { trace } from '@opentelemetry/api';
+import { registerOTel } from '@vercel/otel';
 
+/**
+ * Traces go to the OTLP endpoint named by the standard `OTEL_EXPORTER_OTLP_ENDPOINT`
+ * (or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`), with `OTEL_EXPORTER_OTLP_PROTOCOL`
+ * choosing `http/protobuf` or `http/json` and `OTEL_EXPORTER_OTLP_HEADERS` for
+ * credentials. For a local collector:
+ * `OTEL_EXPORTER_OTLP_ENDPOINT=http://127.0.0.1:4318`.
+ */
 export async function register() {
   if (typeof window !== 'undefined') {
     return;
   }
 
-  tracer.startActiveSpan('startup', span => {
-    span.setAttribute('app.name', 'next-app');
-    span.setAttribute('app.runtime', 'next.js');
-    span.setAttribute('sandbox.routing-layer', 'middleware-edge-config');
-    span.end();
+  registerOTel({
+    serviceName: process.env.OTEL_SERVICE_NAME ?? 'next-app',
+    attributes: {
+      'app.name': 'next-app',
+      'sandbox.routing-layer': 'middleware-edge-config',
+      'sandbox.role': process.env.SANDBOX_ID ? 'sandbox' : 'router',
+      ...(process.env.SANDBOX_ID ? { 'sandbox.id': process.env.SANDBOX_ID } : {}),
+    },
   });
 
-  const rootContext = context.active();
-  tracer.startActiveSpan('keepalive-config', {}, rootContext, span => {
+  // Sandboxes report in-flight requests on /internal/drain so the watchdog can stop them once idle.
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { trackServerRequests } = await import('./app/api/_lib/requestActivity');
+    await trackServerRequests();
+  }
+
+  trace.getTracer('next-app').startActiveSpan('startup', span => {
+    span.setAttribute('app.runtime', process.env.NEXT_RUNTIME ?? 'unknown');
     span.setAttribute('keepalive.enabled', Boolean(process.env.KEEPALIVE_TOKEN));
     span.end();
   });
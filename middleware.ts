@@ -1,20 +1,39 @@
-import { NextResponse, type NextRequest } from 'next/server';
-import { get } from '@vercel/edge-config';
-
-const EDGE_CONFIG_KEYS = {
-  active: 'sandbox_active_url',
-  lastKnownGood: 'sandbox_last_known_good_url',
-} as const;
-
-const LEGACY_EDGE_CONFIG_KEYS = {
-  active: 'sandbox.activeUrl',
-  lastKnownGood: 'sandbox.lastKnownGoodUrl',
-} as const;
+import type { Span } from '@opentelemetry/api';
+import { NextResponse, type NextFetchEvent, type NextRequest } from 'next/server';
+import { authorizeOperatorRequest } from './app/api/_lib/adminAuth';
+import { createLogger, flushLogs, withLogContext } from './app/api/_lib/logger';
+import { readMaintenanceMode } from './app/api/_lib/maintenance';
+import { flushRouterMetrics, incrementCounter } from './app/api/_lib/metrics';
+import { rankRegions, requestCoordinates } from './app/api/_lib/regions';
+import { getRoutingStateStore } from './app/api/_lib/routingStateStore';
+import {
+  clientRoll,
+  drainingTarget,
+  pickRegionalTarget,
+  routableTargets,
+  targetRegions,
+  type RoutingTable,
+  type RoutingTarget,
+} from './app/api/_lib/routingTargets';
+import { LEGACY_STATE_KEYS, STATE_KEYS, readFirstValue } from './app/api/_lib/sandboxState';
+import type { StateStore } from './app/api/_lib/stateStore';
+import { injectTraceContext, markSpanFailed, withSpan } from './app/api/_lib/tracing';
+import { recoveryOutlook, unavailableHoldMs, unavailableResponse, type RecoveryOutlook } from './app/api/_lib/unavailable';
+import { flushNotifications, notify } from './app/api/_lib/webhooks';
 
 const SANDBOX_BYPASS_HEADER = 'x-sandbox-bypass';
+const REQUEST_ID_HEADER = 'x-request-id';
 const ROUTE_BYPASS_PREFIXES = ['/api', '/watchdog', '/favicon.ico', '/robots.txt', '/sitemap', '/bootstrap.js', '/bootstrap.js.map'];
 const DEBUG_SANDBOX_ROUTING = process.env.DEBUG_SANDBOX_ROUTING === 'true';
 const LOCAL_HOME_PREFIX = '/local-home';
+const OPERATOR_PREFIX = '/operator';
+const ROUTING_CLIENT_COOKIE = 'sandbox_client';
+const ROUTING_CLIENT_COOKIE_MAX_AGE_S = 30 * 24 * 60 * 60; // 30 days
+const AFFINITY_COOKIE = 'sandbox_affinity';
+const AFFINITY_COOKIE_MAX_AGE_S = 24 * 60 * 60; // 1 day
+const HOLD_POLL_INTERVAL_MS = 1_000;
+
+const logger = createLogger({ component: 'router' });
 
 function shouldBypassMiddleware(request: NextRequest): boolean {
   if (isSelfRequest(request) || process.env.DISABLE_EDGE_REWRITE === 'true') {
@@ -28,7 +47,7 @@ function shouldBypassMiddleware(request: NextRequest): boolean {
   const { pathname } = request.nextUrl;
   if (pathname.startsWith('/_next')) {
     const referer = request.headers.get('referer') ?? '';
-    if (referer.includes(LOCAL_HOME_PREFIX)) {
+    if (referer.includes(LOCAL_HOME_PREFIX) || referer.includes(OPERATOR_PREFIX)) {
       return true;
     }
   }
@@ -59,51 +78,200 @@ function safeHostFromUrl(urlString: string): string | null {
   try {
     return new URL(urlString).host.toLowerCase();
   } catch {
-    console.warn('middleware.invalid-self-url', { urlString });
+    logger.warn('middleware.invalid-self-url', { urlString });
     return null;
   }
 }
 
-export async function middleware(request: NextRequest) {
+/**
+ * Tags every record logged while routing with a request id, and passes the id on
+ * to the sandbox so its logs for the same request can be joined with ours.
+ */
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
+  const requestId = request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID();
+  const response = await withLogContext({ requestId }, () => routeRequest(request, requestId));
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  event.waitUntil(Promise.all([flushNotifications(), flushRouterMetrics(request.nextUrl.origin)]).then(flushLogs));
+  return response;
+}
+
+async function routeRequest(request: NextRequest, requestId: string): Promise<Response> {
   const { pathname } = request.nextUrl;
+  const store = getRoutingStateStore(request.nextUrl.origin);
 
   if (pathname.startsWith(LOCAL_HOME_PREFIX)) {
-    return await handleLocalHome(request);
+    return await handleLocalHome(store, request);
+  }
+
+  // The operator dashboard is always served by the router itself, never a sandbox.
+  if (pathname.startsWith(OPERATOR_PREFIX)) {
+    return (await authorizeOperatorRequest(request, 'status')) ?? NextResponse.next();
   }
 
   if (shouldBypassMiddleware(request)) {
     return NextResponse.next();
   }
 
+  // One span per routing decision; the rewrite carries its context into the sandbox.
+  return withSpan('router.route', { attributes: { 'http.request.method': request.method, 'url.path': pathname } }, async span => {
+    const maintenance = await readMaintenanceMode(store).catch(error => {
+      logger.error('middleware.maintenance.error', { error });
+      return null;
+    });
+    if (maintenance) {
+      span.setAttribute('sandbox.routing.decision', 'maintenance');
+      incrementCounter('router_routing_decisions_total', { decision: 'maintenance' });
+      return unavailableResponse(request, { reason: 'maintenance', maintenance });
+    }
+
+    const routed = await routeToSandbox(store, request, requestId, span);
+    if (routed) {
+      return routed;
+    }
+
+    const outlook = await recoveryOutlook(store).catch(error => {
+      logger.error('middleware.recovery-outlook.error', { error });
+      return { phase: 'idle' as const, etaMs: 0 };
+    });
+    span.setAttributes({ 'sandbox.recovery.phase': outlook.phase, 'sandbox.recovery.eta_ms': outlook.etaMs });
+
+    const held = await holdForPromotion(store, request, requestId, span, outlook);
+    if (held) {
+      return held;
+    }
+
+    span.setAttribute('sandbox.routing.decision', 'unavailable');
+    incrementCounter('router_routing_decisions_total', { decision: 'unavailable' });
+    notify('routing.unavailable', {
+      severity: 'critical',
+      title: 'No healthy sandbox available',
+      text: 'The router has no active or last known good sandbox and is answering requests with 503.',
+      detail: { path: pathname, phase: outlook.phase },
+    });
+    return unavailableResponse(request, { reason: 'no-healthy-sandbox', outlook });
+  });
+}
+
+/**
+ * Rewrites to the draining sandbox the client is pinned to, the pool, the active
+ * URL or the last known good URL, in that order; `null` when none resolves.
+ */
+async function routeToSandbox(store: StateStore, request: NextRequest, requestId: string, span: Span): Promise<Response | null> {
   try {
-    const activeUrl = await readEdgeConfigUrl([EDGE_CONFIG_KEYS.active, LEGACY_EDGE_CONFIG_KEYS.active]);
+    const client = resolveRoutingClient(request);
+    const table = await store.get<RoutingTable>(STATE_KEYS.targets);
+
+    // A client keeps its sandbox after a promotion for as long as that sandbox drains, so
+    // in-memory sessions survive the rotation; once it is decommissioned it is no longer listed.
+    const pinnedId = request.cookies.get(AFFINITY_COOKIE)?.value;
+    const pinned = pinnedId ? drainingTarget(table, pinnedId) : null;
+    if (pinned) {
+      span.setAttributes({
+        'sandbox.routing.decision': 'affinity',
+        'sandbox.id': pinned.id,
+        'sandbox.url': pinned.url,
+        'sandbox.region': pinned.region ?? 'default',
+      });
+      return await rewriteToSandbox('draining', pinned.url, request, requestId);
+    }
+
+    const poolTarget = pickPoolTarget(table, client.id, request);
+    if (poolTarget) {
+      span.setAttributes({
+        'sandbox.routing.decision': 'pool',
+        'sandbox.id': poolTarget.id,
+        'sandbox.url': poolTarget.url,
+        'sandbox.region': poolTarget.region ?? 'default',
+        'sandbox.routing.new_client': client.isNew,
+      });
+      const response = await rewriteToSandbox('active', poolTarget.url, request, requestId);
+      if (client.isNew) {
+        response.cookies.set(ROUTING_CLIENT_COOKIE, client.id, {
+          httpOnly: true,
+          sameSite: 'lax',
+          path: '/',
+          maxAge: ROUTING_CLIENT_COOKIE_MAX_AGE_S,
+        });
+      }
+      if (pinnedId !== poolTarget.id) {
+        response.cookies.set(AFFINITY_COOKIE, poolTarget.id, {
+          httpOnly: true,
+          sameSite: 'lax',
+          path: '/',
+          maxAge: AFFINITY_COOKIE_MAX_AGE_S,
+        });
+      }
+      return response;
+    }
+
+    // Past this point the pin names no routable sandbox (e.g. one displaced by a rollback); drop it.
+    const unpin = (response: NextResponse) => {
+      if (pinnedId) {
+        response.cookies.delete(AFFINITY_COOKIE);
+      }
+      return response;
+    };
+
+    const activeUrl = await readRoutingUrl(store, [STATE_KEYS.active, LEGACY_STATE_KEYS.active]);
     if (activeUrl) {
-      return await rewriteToSandbox('active', activeUrl, request);
+      span.setAttributes({ 'sandbox.routing.decision': 'active', 'sandbox.url': activeUrl });
+      return unpin(await rewriteToSandbox('active', activeUrl, request, requestId));
     }
 
-    const fallbackUrl = await readEdgeConfigUrl([EDGE_CONFIG_KEYS.lastKnownGood, LEGACY_EDGE_CONFIG_KEYS.lastKnownGood]);
+    const fallbackUrl = await readRoutingUrl(store, [STATE_KEYS.lastKnownGood, LEGACY_STATE_KEYS.lastKnownGood]);
     if (fallbackUrl) {
-      return await rewriteToSandbox('fallback', fallbackUrl, request);
+      span.setAttributes({ 'sandbox.routing.decision': 'fallback', 'sandbox.url': fallbackUrl });
+      notify('routing.stale', {
+        severity: 'warning',
+        title: 'Serving the last known good sandbox',
+        text: 'No active sandbox is set; requests go to the last known good URL until the watchdog recovers.',
+        detail: { url: fallbackUrl },
+      });
+      return unpin(await rewriteToSandbox('fallback', fallbackUrl, request, requestId));
     }
   } catch (error) {
-    console.error('middleware.edge-routing.error', {
-      message: error instanceof Error ? error.message : 'unknown-error',
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    logger.error('middleware.edge-routing.error', { error });
+    markSpanFailed(span, error instanceof Error ? error.message : 'unknown-error');
   }
 
-  return new NextResponse('No healthy sandbox available', {
-    status: 503,
-    headers: {
-      'cache-control': 'no-store',
-      'content-type': 'text/plain; charset=utf-8',
-    },
-  });
+  return null;
+}
+
+/**
+ * Keeps the request waiting, up to `SANDBOX_UNAVAILABLE_HOLD_MS`, when the
+ * watchdog is about to promote a sandbox, so a client arriving seconds before
+ * the routing keys are written is served instead of turned away.
+ */
+async function holdForPromotion(
+  store: StateStore,
+  request: NextRequest,
+  requestId: string,
+  span: Span,
+  outlook: RecoveryOutlook,
+): Promise<Response | null> {
+  const holdMs = unavailableHoldMs();
+  if (holdMs === 0 || outlook.phase === 'idle' || outlook.etaMs > holdMs) {
+    return null;
+  }
+
+  const startedAt = Date.now();
+  while (Date.now() - startedAt < holdMs) {
+    await new Promise(resolve => setTimeout(resolve, Math.min(HOLD_POLL_INTERVAL_MS, holdMs - (Date.now() - startedAt))));
+    const routed = await routeToSandbox(store, request, requestId, span);
+    if (routed) {
+      span.setAttribute('sandbox.routing.held_ms', Date.now() - startedAt);
+      logger.info('middleware.request.held', { heldMs: Date.now() - startedAt, phase: outlook.phase });
+      return routed;
+    }
+  }
+
+  span.setAttribute('sandbox.routing.held_ms', Date.now() - startedAt);
+  return null;
 }
 
-async function handleLocalHome(request: NextRequest): Promise<NextResponse> {
+async function handleLocalHome(store: StateStore, request: NextRequest): Promise<NextResponse> {
   try {
-    const sandboxOrigin = await resolveSandboxOrigin();
+    const sandboxOrigin = await resolveSandboxOrigin(store);
     if (!sandboxOrigin) {
       return NextResponse.next();
     }
@@ -118,19 +286,23 @@ async function handleLocalHome(request: NextRequest): Promise<NextResponse> {
     response.headers.set('x-sandbox-routing', 'local-view');
     return response;
   } catch (error) {
-    console.error('middleware.local-home.error', {
-      message: error instanceof Error ? error.message : 'unknown-error',
-      stack: error instanceof Error ? error.stack : undefined,
-    });
+    logger.error('middleware.local-home.error', { error });
     return NextResponse.next();
   }
 }
 
-async function rewriteToSandbox(kind: 'active' | 'fallback', targetUrl: string, request: NextRequest): Promise<NextResponse> {
+async function rewriteToSandbox(
+  kind: RewriteKind,
+  targetUrl: string,
+  request: NextRequest,
+  requestId: string,
+): Promise<NextResponse> {
   const rewriteUrl = composeSandboxUrl(targetUrl, request);
   const debug = await probeSandbox(rewriteUrl, request);
   const sandboxOrigin = extractOrigin(targetUrl);
   const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+  injectTraceContext(requestHeaders);
   if (sandboxOrigin) {
     requestHeaders.set('x-sandbox-origin', sandboxOrigin);
   }
@@ -140,7 +312,9 @@ async function rewriteToSandbox(kind: 'active' | 'fallback', targetUrl: string,
   if (sandboxOrigin) {
     response.headers.set('x-sandbox-origin', sandboxOrigin);
   }
-  response.headers.set('x-sandbox-routing', kind === 'active' ? 'edge-rewrite' : 'edge-rewrite-stale');
+  const decision = REWRITE_DECISIONS[kind];
+  response.headers.set('x-sandbox-routing', decision);
+  incrementCounter('router_routing_decisions_total', { decision });
   if (debug) {
     response.headers.set('x-sandbox-probe-status', String(debug.status));
     if (debug.error) {
@@ -151,6 +325,14 @@ async function rewriteToSandbox(kind: 'active' | 'fallback', targetUrl: string,
   return response;
 }
 
+type RewriteKind = 'active' | 'draining' | 'fallback';
+
+const REWRITE_DECISIONS: Record<RewriteKind, string> = {
+  active: 'edge-rewrite',
+  draining: 'edge-rewrite-affinity',
+  fallback: 'edge-rewrite-stale',
+};
+
 function composeSandboxUrl(baseUrl: string, request: NextRequest): string {
   const target = new URL(baseUrl);
   target.pathname = request.nextUrl.pathname;
@@ -158,14 +340,30 @@ function composeSandboxUrl(baseUrl: string, request: NextRequest): string {
   return target.toString();
 }
 
-async function readEdgeConfigUrl(keys: readonly string[]): Promise<string | null> {
-  for (const key of keys) {
-    const value = await get<string | null>(key);
-    if (value) {
-      return value;
-    }
+/**
+ * Spreads requests across the pool the watchdog published. Members that failed a
+ * health check are already gone from the table, so an outage of one member only
+ * shifts its share onto the others; a region with no members left fails over to the
+ * next-closest one. The roll is derived from the client id, which keeps a client on
+ * the same side of a canary split from one request to the next.
+ */
+function pickPoolTarget(table: RoutingTable | undefined, clientId: string, request: NextRequest): RoutingTarget | null {
+  const targets = routableTargets(table);
+  const rankedRegions = rankRegions(targetRegions(targets), requestCoordinates(request.headers));
+  return pickRegionalTarget(targets, rankedRegions, clientRoll(clientId));
+}
+
+function resolveRoutingClient(request: NextRequest): { id: string; isNew: boolean } {
+  const existing = request.cookies.get(ROUTING_CLIENT_COOKIE)?.value;
+  if (existing) {
+    return { id: existing, isNew: false };
   }
-  return null;
+  return { id: crypto.randomUUID(), isNew: true };
+}
+
+async function readRoutingUrl(store: StateStore, keys: readonly string[]): Promise<string | null> {
+  const stored = await readFirstValue<string>(store, keys);
+  return stored?.value ?? null;
 }
 
 export const config = {
@@ -199,34 +397,28 @@ async function probeSandbox(rewriteUrl: string, request: NextRequest): Promise<S
   }
 }
 
-function logSandboxRouting(kind: 'active' | 'fallback', request: NextRequest, rewriteUrl: string, debug: SandboxProbeResult | null) {
+function logSandboxRouting(kind: RewriteKind, request: NextRequest, rewriteUrl: string, debug: SandboxProbeResult | null) {
   if (!DEBUG_SANDBOX_ROUTING) {
     return;
   }
 
-  const payload: Record<string, unknown> = {
-    event: 'middleware.sandbox-routing',
+  logger.info('middleware.sandbox-routing', {
     kind,
     method: request.method,
     path: request.nextUrl.pathname,
     rewriteUrl,
     probeStatus: debug?.status ?? null,
-  };
-
-  if (debug?.error) {
-    payload.probeError = debug.error;
-  }
-
-  console.log(JSON.stringify(payload));
+    probeError: debug?.error,
+  });
 }
 
-async function resolveSandboxOrigin(): Promise<string | null> {
-  const activeUrl = await readEdgeConfigUrl([EDGE_CONFIG_KEYS.active, LEGACY_EDGE_CONFIG_KEYS.active]);
+async function resolveSandboxOrigin(store: StateStore): Promise<string | null> {
+  const activeUrl = await readRoutingUrl(store, [STATE_KEYS.active, LEGACY_STATE_KEYS.active]);
   if (activeUrl) {
     return extractOrigin(activeUrl);
   }
 
-  const fallbackUrl = await readEdgeConfigUrl([EDGE_CONFIG_KEYS.lastKnownGood, LEGACY_EDGE_CONFIG_KEYS.lastKnownGood]);
+  const fallbackUrl = await readRoutingUrl(store, [STATE_KEYS.lastKnownGood, LEGACY_STATE_KEYS.lastKnownGood]);
   if (fallbackUrl) {
     return extractOrigin(fallbackUrl);
   }
@@ -238,10 +430,7 @@ function extractOrigin(urlString: string): string | null {
   try {
     return new URL(urlString).origin;
   } catch (error) {
-    console.warn('middleware.invalid-sandbox-url', {
-      urlString,
-      error: error instanceof Error ? error.message : String(error),
-    });
+    logger.warn('middleware.invalid-sandbox-url', { urlString, error: error instanceof Error ? error.message : String(error) });
     return null;
   }
 }
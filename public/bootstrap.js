@@ -4,12 +4,22 @@ import { mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import { setTimeout as sleep } from 'node:timers/promises';
 import { execa } from 'execa';
-import pino from 'pino';
-const logger = pino({
-    level: process.env.LOG_LEVEL ?? 'info',
-    base: {
-        component: 'sandbox-bootstrap',
-    },
+const LEVEL_ORDER = { debug: 10, info: 20, warn: 30, error: 40 };
+const REDACTED = '[REDACTED]';
+// The URL-userinfo and secret-environment rules of app/api/_lib/redact.ts; the clone URL may carry a token.
+const URL_USERINFO = /(?<=[a-z][a-z0-9+.-]*:\/\/)[^\s/@:]+(?::[^\s/@]*)?(?=@)/gi;
+const SECRET_ENV_NAME = /(TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIALS?|PRIVATE_KEY|API_KEY)$/i;
+const MIN_SECRET_LENGTH = 8;
+// Emits the record shape of app/api/_lib/logger.ts (time, level, event, component, sandboxId, ...fields)
+// as JSON lines, so bootstrap output joins with the watchdog's and the sandboxed app's.
+// Longest first, so a secret containing another is replaced whole.
+const secretEnvValues = Object.entries(process.env)
+    .filter(([name, value]) => value && value.length >= MIN_SECRET_LENGTH && SECRET_ENV_NAME.test(name))
+    .map(([, value]) => value)
+    .sort((left, right) => right.length - left.length);
+const logger = createLogger({
+    component: 'sandbox-bootstrap',
+    ...(process.env.SANDBOX_ID ? { sandboxId: process.env.SANDBOX_ID } : {}),
 });
 const DEFAULT_WORKDIR = '/tmp/next-sandbox-app';
 const HEALTH_ENDPOINT = '/api/health';
@@ -20,54 +30,54 @@ async function main() {
     const port = env('PORT');
     const sandboxUrl = env('SANDBOX_SELF_URL');
     const keepaliveToken = process.env.KEEPALIVE_TOKEN ?? '';
-    logger.info({ repoUrl, gitRef, workdir, port, sandboxUrl }, 'sandbox bootstrap starting');
+    logger.info('sandbox.bootstrap.start', { repoUrl, gitRef, workdir, port, sandboxUrl });
     await prepareWorkspace(workdir);
     await cloneRepository(repoUrl, gitRef, workdir);
     await installDependencies(workdir);
     await buildApplication(workdir);
     const starter = startServer(workdir, port, sandboxUrl);
     await waitForHealth(`${sandboxUrl}${HEALTH_ENDPOINT}`, keepaliveToken);
-    logger.info({ sandboxUrl }, 'sandbox application is healthy');
+    logger.info('sandbox.bootstrap.healthy', { sandboxUrl });
     forwardSignals(starter);
 }
 function env(name) {
     const value = process.env[name];
     if (!value) {
-        logger.error({ name }, 'missing required environment variable');
+        logger.error('sandbox.bootstrap.missing-env', { name });
         process.exit(1);
     }
     return value;
 }
 async function prepareWorkspace(workdir) {
     if (!existsSync(workdir)) {
-        logger.info({ workdir }, 'creating workspace directory');
+        logger.info('sandbox.bootstrap.workspace.create', { workdir });
         await mkdir(workdir, { recursive: true });
     }
 }
 async function cloneRepository(repoUrl, gitRef, workdir) {
     if (existsSync(join(workdir, '.git'))) {
-        logger.info({ workdir }, 'repository already present, fetching latest changes');
+        logger.info('sandbox.bootstrap.repo.fetch', { workdir });
         await execa('git', ['fetch', '--all'], { cwd: workdir, stdio: 'inherit' });
         await execa('git', ['checkout', gitRef], { cwd: workdir, stdio: 'inherit' });
         await execa('git', ['reset', '--hard', `origin/${gitRef}`], { cwd: workdir, stdio: 'inherit' });
         return;
     }
-    logger.info({ repoUrl, gitRef, workdir }, 'cloning repository');
+    logger.info('sandbox.bootstrap.repo.clone', { repoUrl, gitRef, workdir });
     await execa('git', ['clone', '--branch', gitRef, '--single-branch', repoUrl, workdir], {
         stdio: 'inherit',
     });
 }
 async function installDependencies(workdir) {
-    logger.info({ workdir }, 'installing dependencies via pnpm');
+    logger.info('sandbox.bootstrap.install', { workdir });
     await execa('corepack', ['enable'], { stdio: 'inherit' });
     await execa('pnpm', ['install', '--frozen-lockfile'], { cwd: workdir, stdio: 'inherit' });
 }
 async function buildApplication(workdir) {
-    logger.info('building Next.js application');
+    logger.info('sandbox.bootstrap.build');
     await execa('pnpm', ['--filter', 'next-app', 'build'], { cwd: workdir, stdio: 'inherit' });
 }
 function startServer(workdir, port, sandboxUrl) {
-    logger.info({ port }, 'starting Next.js server');
+    logger.info('sandbox.bootstrap.server.start', { port });
     const child = execa('pnpm', ['--filter', 'next-app', 'start', '--', '--port', port], {
         cwd: workdir,
         env: {
@@ -78,13 +88,13 @@ function startServer(workdir, port, sandboxUrl) {
         stdio: 'inherit',
     });
     child.catch(error => {
-        logger.error({ error }, 'sandbox server crashed');
+        logger.error('sandbox.bootstrap.server.crashed', { error });
         process.exit(1);
     });
     return child;
 }
 async function waitForHealth(url, keepaliveToken) {
-    logger.info({ url }, 'waiting for sandbox health endpoint');
+    logger.info('sandbox.bootstrap.health.wait', { url });
     const timeoutMs = Number(process.env.HEALTH_TIMEOUT_MS ?? 90_000);
     const started = Date.now();
     while (Date.now() - started < timeoutMs) {
@@ -98,31 +108,31 @@ async function waitForHealth(url, keepaliveToken) {
             });
             if (response.ok) {
                 const payload = await response.json().catch(() => ({}));
-                logger.info({ payload }, 'sandbox health check passed');
+                logger.info('sandbox.bootstrap.health.passed', { payload });
                 return;
             }
-            logger.warn({ status: response.status }, 'sandbox health endpoint not ready');
+            logger.warn('sandbox.bootstrap.health.not-ready', { status: response.status });
         }
         catch (error) {
-            logger.warn({ message: error.message }, 'sandbox health probe failed');
+            logger.warn('sandbox.bootstrap.health.probe-error', { message: error.message });
         }
         await sleep(2_000);
     }
-    logger.error({ url }, 'timed out waiting for sandbox health');
+    logger.error('sandbox.bootstrap.health.timeout', { url });
     process.exit(1);
 }
 function forwardSignals(child) {
     const signals = ['SIGINT', 'SIGTERM'];
     for (const signal of signals) {
         process.on(signal, () => {
-            logger.info({ signal }, 'forwarding shutdown signal to Next.js server');
+            logger.info('sandbox.bootstrap.signal.forward', { signal });
             const sent = child.kill(signal);
             if (!sent) {
-                logger.warn({ signal }, 'failed to forward signal to sandbox server');
+                logger.warn('sandbox.bootstrap.signal.forward-failed', { signal });
                 return;
             }
             const timeout = setTimeout(() => {
-                logger.warn({ signal }, 'force killing sandbox server after timeout');
+                logger.warn('sandbox.bootstrap.signal.force-kill', { signal });
                 child.kill('SIGKILL');
             }, 30_000);
             if (typeof timeout.unref === 'function') {
@@ -131,5 +141,42 @@ function forwardSignals(child) {
         });
     }
 }
+function createLogger(bindings) {
+    const threshold = LEVEL_ORDER[process.env.LOG_LEVEL ?? 'info'] ?? LEVEL_ORDER.info;
+    const emit = (level, event, fields = {}) => {
+        if (LEVEL_ORDER[level] < threshold) {
+            return;
+        }
+        const record = { time: new Date().toISOString(), level, event, ...bindings, ...fields };
+        const line = JSON.stringify(record, (_key, value) => {
+            if (value instanceof Error) {
+                return { name: value.name, message: value.message, stack: value.stack };
+            }
+            return typeof value === 'string' ? redact(value) : value;
+        });
+        if (level === 'error') {
+            console.error(line);
+        }
+        else if (level === 'warn') {
+            console.warn(line);
+        }
+        else {
+            console.log(line);
+        }
+    };
+    return {
+        debug: (event, fields) => emit('debug', event, fields),
+        info: (event, fields) => emit('info', event, fields),
+        warn: (event, fields) => emit('warn', event, fields),
+        error: (event, fields) => emit('error', event, fields),
+    };
+}
+function redact(text) {
+    let result = text;
+    for (const secret of secretEnvValues) {
+        result = result.split(secret).join(REDACTED);
+    }
+    return result.replace(URL_USERINFO, REDACTED);
+}
 void main();
 //# sourceMappingURL=bootstrap.js.map
\ No newline at end of file